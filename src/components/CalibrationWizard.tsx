@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { useLightingStore } from '../stores/lightingStore';
+import { Fixture } from '../types/lighting';
+import {
+  AimReference,
+  CalibrationResult,
+  MAX_CALIBRATION_MARKS,
+  MIN_CALIBRATION_MARKS,
+  solveFixtureCalibration
+} from '../utils/calibration';
+import { Crosshair, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '../hooks/use-toast';
+
+// Marks whose beam lands further off than this are flagged as suspect, in meters
+const SUSPECT_RESIDUAL = 0.25;
+
+type MarkDraft = Record<keyof AimReference, string>;
+
+interface CalibrationWizardProps {
+  fixture: Fixture;
+}
+
+export const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ fixture }) => {
+  const { toast } = useToast();
+  const { updateFixtureSetup, positions } = useLightingStore();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [marks, setMarks] = useState<MarkDraft[]>([]);
+  const [result, setResult] = useState<CalibrationResult | null>(null);
+
+  const position = positions.find(p => p.id === fixture.positionId);
+
+  // Pre-fill a mark with the fixture's last target and the angles it was sent
+  const currentAim = (): MarkDraft => ({
+    x: fixture.targetX.toFixed(2),
+    y: fixture.targetY.toFixed(2),
+    pan: fixture.pan.toFixed(1),
+    tilt: fixture.tilt.toFixed(1)
+  });
+
+  const handleOpen = () => {
+    setMarks([currentAim()]);
+    setResult(null);
+    setIsOpen(true);
+  };
+
+  const updateMark = (index: number, field: keyof AimReference, value: string) => {
+    setMarks(marks => marks.map((m, i) => i === index ? { ...m, [field]: value } : m));
+    setResult(null);
+  };
+
+  const captureAngles = (index: number) => {
+    setMarks(marks => marks.map((m, i) =>
+      i === index ? { ...m, pan: fixture.pan.toFixed(1), tilt: fixture.tilt.toFixed(1) } : m
+    ));
+    setResult(null);
+  };
+
+  const parsedMarks = marks.map(m => ({
+    x: parseFloat(m.x),
+    y: parseFloat(m.y),
+    pan: parseFloat(m.pan),
+    tilt: parseFloat(m.tilt)
+  }));
+  // Every row must be filled in, so residuals line up with the rows
+  const isComplete = parsedMarks.every(m => [m.x, m.y, m.pan, m.tilt].every(Number.isFinite));
+
+  const handleSolve = () => {
+    try {
+      setResult(solveFixtureCalibration(fixture, parsedMarks));
+    } catch (error) {
+      toast({
+        title: "Calibration failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleApply = () => {
+    if (!result) return;
+    updateFixtureSetup(fixture.id, {
+      // The measured position wins over the rig position it was hung on; the head is re-aimed with the new values
+      positionId: null,
+      x: result.x,
+      y: result.y,
+      z: result.z,
+      panOffset: result.panOffset,
+      tiltOffset: result.tiltOffset,
+      panInverted: result.panInverted,
+      tiltInverted: result.tiltInverted
+    });
+    toast({
+      title: "Calibration applied",
+      description: `Fixture ${fixture.id}: ${result.rmsAngle.toFixed(2)}° RMS error`
+    });
+    setIsOpen(false);
+  };
+
+  const markInput = (index: number, field: keyof AimReference, placeholder: string) => (
+    <Input
+      type="number"
+      value={marks[index][field]}
+      onChange={(e) => updateMark(index, field, e.target.value)}
+      step={field === 'x' || field === 'y' ? '0.1' : '0.5'}
+      className="h-6 text-xs flex-1 min-w-0"
+      placeholder={placeholder}
+      title={placeholder}
+    />
+  );
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-6 px-2 gap-1 text-xs w-full"
+        onClick={handleOpen}
+        title="Fit position, offsets and inversions from hand-aimed floor marks"
+      >
+        <Crosshair className="w-3 h-3" />
+        Calibrate from marks…
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Calibrate Fixture {fixture.id}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Aim the fixture by hand at {MIN_CALIBRATION_MARKS}–{MAX_CALIBRATION_MARKS} known floor marks
+              and record the pan/tilt for each. Spread the marks out for a stable fit.
+            </p>
+
+            <div className="space-y-1">
+              <div className="flex items-center gap-2 text-xs text-muted-foreground pr-14">
+                <span className="w-4" />
+                <span className="flex-1">X (m)</span>
+                <span className="flex-1">Y (m)</span>
+                <span className="flex-1">Pan (°)</span>
+                <span className="flex-1">Tilt (°)</span>
+              </div>
+              {marks.map((_, index) => {
+                const residual = result?.residuals[index];
+                const isSuspect = residual && residual.distance > SUSPECT_RESIDUAL;
+                return (
+                  <div key={index} className="space-y-0.5">
+                    <div className="flex items-center gap-2 text-xs">
+                      <span className="w-4 text-muted-foreground">{index + 1}</span>
+                      {markInput(index, 'x', 'Mark X')}
+                      {markInput(index, 'y', 'Mark Y')}
+                      {markInput(index, 'pan', 'Pan')}
+                      {markInput(index, 'tilt', 'Tilt')}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        onClick={() => captureAngles(index)}
+                        title={`Use the current pan/tilt (${fixture.pan.toFixed(1)}°, ${fixture.tilt.toFixed(1)}°)`}
+                      >
+                        <Crosshair className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        onClick={() => {
+                          setMarks(marks => marks.filter((__, i) => i !== index));
+                          setResult(null);
+                        }}
+                        title="Remove mark"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                    {residual && (
+                      <div className={`text-xs pl-6 ${isSuspect ? 'text-amber-500' : 'text-muted-foreground'}`}>
+                        {isSuspect && '⚠️ '}
+                        {Number.isFinite(residual.distance)
+                          ? `Off by ${residual.distance.toFixed(2)}m (${residual.angle.toFixed(2)}°)`
+                          : `Misses the floor (${residual.angle.toFixed(2)}°)`}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-6 px-2 gap-1 text-xs"
+                onClick={() => {
+                  setMarks(marks => [...marks, currentAim()]);
+                  setResult(null);
+                }}
+                disabled={marks.length >= MAX_CALIBRATION_MARKS}
+              >
+                <Plus className="w-3 h-3" />
+                Add mark
+              </Button>
+            </div>
+
+            {result && (
+              <div className="p-2 bg-muted rounded text-xs space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">Fitted values</span>
+                  <Badge variant={result.rmsAngle < 1 ? "secondary" : "destructive"} className="text-xs">
+                    {result.rmsAngle.toFixed(2)}° RMS
+                  </Badge>
+                </div>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-0.5 font-mono">
+                  <span>X {result.x.toFixed(2)}m</span>
+                  <span>Pan offset {result.panOffset.toFixed(1)}°</span>
+                  <span>Y {result.y.toFixed(2)}m</span>
+                  <span>Tilt offset {result.tiltOffset.toFixed(1)}°</span>
+                  <span>Z {result.z.toFixed(2)}m</span>
+                  <span>
+                    Invert {[result.panInverted && 'pan', result.tiltInverted && 'tilt'].filter(Boolean).join(' + ') || 'none'}
+                  </span>
+                </div>
+                {position && (
+                  <p className="text-muted-foreground">
+                    Applying takes the fixture off {position.name} and uses the fitted position
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setIsOpen(false)}>
+                Cancel
+              </Button>
+              {result ? (
+                <Button onClick={handleApply}>Apply</Button>
+              ) : (
+                <Button onClick={handleSolve} disabled={!isComplete || marks.length < MIN_CALIBRATION_MARKS}>
+                  Solve
+                </Button>
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { ConsoleSimulator, SimulatorFault } from '../utils/consoleSimulator';
+
+const faults: { value: SimulatorFault; label: string }[] = [
+  { value: 'none', label: 'No failures' },
+  { value: 'timeout', label: 'Time out every request' },
+  { value: 'error', label: 'Answer ok:false' },
+];
+
+interface ConsoleSimulatorPanelProps {
+  simulator: ConsoleSimulator;
+}
+
+export const ConsoleSimulatorPanel: React.FC<ConsoleSimulatorPanelProps> = ({ simulator }) => {
+  const [latency, setLatency] = useState(simulator.latency.toString());
+  const [fault, setFault] = useState<SimulatorFault>(simulator.fault);
+  const [, setTick] = useState(0);
+
+  // Heads move between requests, so redraw while the panel is open
+  useEffect(() => {
+    const timer = setInterval(() => setTick(t => t + 1), 250);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    setLatency(simulator.latency.toString());
+    setFault(simulator.fault);
+  }, [simulator]);
+
+  const fixtures = simulator.snapshot();
+  const requests = simulator.recentRequests().slice(0, 6);
+
+  return (
+    <div className="space-y-2 p-3 bg-muted rounded-lg text-xs">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Simulated Console</Label>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={() => simulator.reset()}
+          title="Forget every fixture and cancel preset steps still to run"
+        >
+          Reset
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <span className="text-muted-foreground">Latency (ms)</span>
+          <Input
+            type="number"
+            value={latency}
+            onChange={(e) => {
+              setLatency(e.target.value);
+              simulator.latency = Math.max(0, parseFloat(e.target.value) || 0);
+            }}
+            step="10"
+            min="0"
+            className="h-6 text-xs"
+          />
+        </div>
+        <div className="space-y-1">
+          <span className="text-muted-foreground">Failure</span>
+          <Select
+            value={fault}
+            onValueChange={(value: SimulatorFault) => {
+              setFault(value);
+              simulator.fault = value;
+            }}
+          >
+            <SelectTrigger className="h-6 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {faults.map(f => (
+                <SelectItem key={f.value} value={f.value} className="text-xs">
+                  {f.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-0.5 max-h-40 overflow-y-auto custom-scrollbar font-mono">
+        {fixtures.map(f => (
+          <div key={f.id} className="flex items-center gap-2">
+            <span className="w-6 text-right">{f.id}</span>
+            <span className="flex-1">
+              P {f.pan.toFixed(0)}° T {f.tilt.toFixed(0)}° · {Math.round(f.dimmer)}%
+            </span>
+            {f.moving && <Badge variant="secondary" className="text-xs px-1">moving</Badge>}
+            {f.parked && <Badge variant="outline" className="text-xs px-1">parked</Badge>}
+          </div>
+        ))}
+        {fixtures.length === 0 && (
+          <p className="text-muted-foreground text-center py-2 font-sans">No commands received yet</p>
+        )}
+      </div>
+
+      {requests.length > 0 && (
+        <div className="space-y-0.5 border-t border-border/50 pt-1">
+          {requests.map(r => (
+            <div key={`${r.time}-${r.path}`} className="flex justify-between font-mono">
+              <span>{r.path}</span>
+              <span className={r.outcome === 'ok' ? 'text-muted-foreground' : 'text-destructive'}>{r.outcome}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -6,16 +6,29 @@ import { Label } from './ui/label';
 import { Slider } from './ui/slider';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { useLightingStore } from '../stores/lightingStore';
 import { FloorPlanUpload } from './FloorPlanUpload';
+import { PatchEditor } from './PatchEditor';
+import { PositionEditor } from './PositionEditor';
+import { ObstacleEditor } from './ObstacleEditor';
+import { HeightZoneEditor } from './HeightZoneEditor';
+import { FixtureTypeLibrary } from './FixtureTypeLibrary';
+import { ConsoleSimulatorPanel } from './ConsoleSimulatorPanel';
+import { getFixtureType, typesHaveFeature, zoomToBeamAngle } from '../utils/fixtureTypes';
+import { lensForSpot } from '../utils/spotSize';
+import { outputBackendOption, outputBackendOptions } from '../utils/outputBackend';
+import { SimulatorBackend } from '../utils/consoleSimulator';
+import { OutputBackendKind } from '../types/lighting';
 import { Lightbulb, Palette, Circle, Settings, Wifi, WifiOff, Lock, Unlock } from 'lucide-react';
 
 export const ControlPanel: React.FC = () => {
   const {
     fixtures,
+    fixtureTypes,
     selectedFixtures,
     apiConfig,
-    apiClient,
+    outputBackend,
     floorPlan,
     scale,
     updateDimmer,
@@ -25,19 +38,23 @@ export const ControlPanel: React.FC = () => {
     updateFocus,
     updateZoom,
     updateFrost,
+    setSpotDiameter,
     parkFixtures,
     unparkFixtures,
     updateApiConfig,
     initializeApi,
+    setOutputBackend,
     updateFloorPlanDimensions,
-    updateFixtureHeight,
-    updateFixturePosition,
-    adjustFixtureSpacing,
     setScale
   } = useLightingStore();
 
   const [tempApiUrl, setTempApiUrl] = useState(apiConfig.baseUrl);
 
+  // Each room has its own endpoint
+  React.useEffect(() => {
+    setTempApiUrl(apiConfig.baseUrl);
+  }, [apiConfig.baseUrl]);
+
   // Local states for immediate visual feedback
   const [localDimmer, setLocalDimmer] = useState(0);
   const [localColor, setLocalColor] = useState({ r: 255, g: 255, b: 255 });
@@ -45,6 +62,7 @@ export const ControlPanel: React.FC = () => {
   const [localFocus, setLocalFocus] = useState(50);
   const [localZoom, setLocalZoom] = useState(50);
   const [localFrost, setLocalFrost] = useState(0);
+  const [localSpot, setLocalSpot] = useState('');
 
   // Debounce timers
   const dimmerTimer = useRef<NodeJS.Timeout | null>(null);
@@ -53,10 +71,23 @@ export const ControlPanel: React.FC = () => {
   const focusTimer = useRef<NodeJS.Timeout | null>(null);
   const zoomTimer = useRef<NodeJS.Timeout | null>(null);
   const frostTimer = useRef<NodeJS.Timeout | null>(null);
+  const spotTimer = useRef<NodeJS.Timeout | null>(null);
+
+  const isConnected = !!outputBackend?.isConnected();
+  const backendOption = outputBackendOption(apiConfig);
+  const consoleConfig = isConnected ? outputBackend.getConsoleConfig() : null;
 
   const selectedFixtureData = fixtures.filter(f => selectedFixtures.includes(f.id));
   const hasSelection = selectedFixtures.length > 0;
 
+  // Controls offered depend on the types of the selected fixtures
+  const selectedTypes = selectedFixtureData.map(f => getFixtureType(fixtureTypes, f));
+  const hasIris = typesHaveFeature(selectedTypes, 'iris');
+  const hasFrost = typesHaveFeature(selectedTypes, 'frost');
+  const hasGobo = typesHaveFeature(selectedTypes, 'gobo');
+  const hasColorMixing = selectedTypes.some(t => t.colorSystem !== 'none');
+  const zoomType = selectedTypes[0];
+
   // Get common values for selected fixtures
   const commonDimmer = hasSelection ? selectedFixtureData[0]?.dimmer : 0;
   const commonColor = hasSelection ? selectedFixtureData[0]?.color : { r: 255, g: 255, b: 255 };
@@ -65,6 +96,10 @@ export const ControlPanel: React.FC = () => {
   const commonFocus = hasSelection ? selectedFixtureData[0]?.focus : 50;
   const commonZoom = hasSelection ? selectedFixtureData[0]?.zoom : 50;
   const commonFrost = hasSelection ? selectedFixtureData[0]?.frost : 0;
+  const commonSpot = hasSelection ? selectedFixtureData[0]?.spotDiameter : undefined;
+
+  // Fixtures whose zoom range can't make their spot size at the current throw
+  const spotOutOfRange = selectedFixtureData.filter(f => lensForSpot(f, getFixtureType(fixtureTypes, f))?.clamped);
 
   // Update local states when selection changes
   React.useEffect(() => {
@@ -74,7 +109,8 @@ export const ControlPanel: React.FC = () => {
     setLocalFocus(commonFocus);
     setLocalZoom(commonZoom);
     setLocalFrost(commonFrost);
-  }, [selectedFixtures, commonDimmer, commonColor, commonIris, commonFocus, commonZoom, commonFrost]);
+    setLocalSpot(commonSpot ? commonSpot.toString() : '');
+  }, [selectedFixtures, commonDimmer, commonColor, commonIris, commonFocus, commonZoom, commonFrost, commonSpot]);
 
   const handleDimmerChange = (value: number[]) => {
     if (hasSelection) {
@@ -133,6 +169,18 @@ export const ControlPanel: React.FC = () => {
     }
   };
 
+  // An empty or zero spot size hands zoom and focus back to the sliders
+  const handleSpotChange = (value: string) => {
+    if (hasSelection) {
+      setLocalSpot(value);
+      if (spotTimer.current) clearTimeout(spotTimer.current);
+      spotTimer.current = setTimeout(() => {
+        const diameter = parseFloat(value);
+        setSpotDiameter(selectedFixtures, diameter > 0 ? diameter : null);
+      }, 300);
+    }
+  };
+
   const handleFrostChange = (value: number[]) => {
     if (hasSelection) {
       setLocalFrost(value[0]);
@@ -150,7 +198,14 @@ export const ControlPanel: React.FC = () => {
     }
   };
 
-  const gobos = [
+  const handleBackendChange = async (backend: OutputBackendKind) => {
+    const connected = await setOutputBackend(backend);
+    if (!connected) {
+      console.error(`Failed to connect to ${backend}`);
+    }
+  };
+
+  const genericGobos = [
     { id: 0, name: 'Open', icon: '○' },
     { id: 1, name: 'Dots', icon: '⚬' },
     { id: 2, name: 'Lines', icon: '∥' },
@@ -159,6 +214,12 @@ export const ControlPanel: React.FC = () => {
     { id: 5, name: 'Spiral', icon: '◉' },
   ];
 
+  // Use the real gobo wheel when the selected type defines one (e.g. imported from GDTF)
+  const goboWheel = selectedTypes.find(t => t.gobos && t.gobos.length > 0)?.gobos;
+  const gobos = goboWheel
+    ? goboWheel.map(slot => ({ id: slot.index, name: slot.name, icon: slot.index === 0 ? '○' : '◌' }))
+    : genericGobos;
+
   return (
     <Card className="control-panel h-full flex flex-col">
       <CardHeader className="pb-3">
@@ -169,7 +230,7 @@ export const ControlPanel: React.FC = () => {
         
         {/* Connection Status */}
         <div className="flex items-center gap-2 text-sm">
-          {(apiClient && apiClient.isConnected()) ? (
+          {isConnected ? (
             <div className="flex items-center gap-1 text-primary">
               <Wifi className="w-4 h-4" />
               <span>Connected</span>
@@ -181,7 +242,9 @@ export const ControlPanel: React.FC = () => {
             </div>
           )}
           <span className="text-muted-foreground">•</span>
-          <span className="text-muted-foreground">{apiConfig.grandma2Host}:{apiConfig.grandma2Port}</span>
+          <span className="text-muted-foreground">
+            {backendOption.usesBaseUrl ? `${apiConfig.grandma2Host}:${apiConfig.grandma2Port}` : backendOption.label}
+          </span>
         </div>
         
         {/* Selected Fixtures */}
@@ -234,8 +297,11 @@ export const ControlPanel: React.FC = () => {
             </div>
 
             {/* Gobo Selection */}
-            <div className="space-y-2">
+            {hasGobo && <div className="space-y-2">
               <Label className="text-sm font-medium">Gobo / Shape</Label>
+              {isConnected && !outputBackend.capabilities.gobo && (
+                <p className="text-xs text-muted-foreground">Shown here only - {backendOption.label} doesn't send gobos</p>
+              )}
               <div className="grid grid-cols-3 gap-2">
                 {gobos.map(gobo => (
                   <Button
@@ -247,14 +313,14 @@ export const ControlPanel: React.FC = () => {
                     disabled={!hasSelection}
                   >
                     <span className="text-lg">{gobo.icon}</span>
-                    <span className="text-xs">{gobo.name}</span>
+                    <span className="text-xs truncate max-w-full">{gobo.name}</span>
                   </Button>
                 ))}
               </div>
-            </div>
+            </div>}
 
             {/* Iris Control */}
-            <div className="space-y-2">
+            {hasIris && <div className="space-y-2">
               <Label className="text-sm font-medium">Iris Opening</Label>
               <div className="flex items-center space-x-3">
                 <Slider
@@ -269,7 +335,7 @@ export const ControlPanel: React.FC = () => {
                   {localIris}%
                 </span>
               </div>
-            </div>
+            </div>}
 
             {/* Focus Control */}
             <div className="space-y-2">
@@ -305,10 +371,40 @@ export const ControlPanel: React.FC = () => {
                   {localZoom}%
                 </span>
               </div>
+              {zoomType && (
+                <p className="text-xs text-muted-foreground">
+                  Beam angle {zoomToBeamAngle(zoomType, localZoom).toFixed(1)}°
+                  ({zoomType.zoomRange.min}°–{zoomType.zoomRange.max}°)
+                </p>
+              )}
             </div>
 
-            {/* Frost Control */}
+            {/* Spot size: zoom and focus follow the throw */}
             <div className="space-y-2">
+              <Label className="text-sm font-medium">Spot Size</Label>
+              <div className="flex items-center space-x-3">
+                <Input
+                  type="number"
+                  value={localSpot}
+                  onChange={(e) => handleSpotChange(e.target.value)}
+                  step="0.1"
+                  min="0"
+                  placeholder="Manual"
+                  className="h-8 flex-1"
+                  disabled={!hasSelection}
+                  title="Spot diameter on the target (m); zoom and focus are recalculated on every aim"
+                />
+                <span className="text-sm font-mono w-12 text-right">m</span>
+              </div>
+              {spotOutOfRange.length > 0 && (
+                <p className="text-xs text-destructive">
+                  Outside the zoom range at this throw: {spotOutOfRange.map(f => f.id).join(', ')}
+                </p>
+              )}
+            </div>
+
+            {/* Frost Control */}
+            {hasFrost && <div className="space-y-2">
               <Label className="text-sm font-medium">Frost / Diffusion</Label>
               <div className="flex items-center space-x-3">
                 <Slider
@@ -323,7 +419,7 @@ export const ControlPanel: React.FC = () => {
                   {localFrost}%
                 </span>
               </div>
-            </div>
+            </div>}
 
             {/* Quick Actions */}
             <div className="space-y-2">
@@ -357,7 +453,7 @@ export const ControlPanel: React.FC = () => {
                   size="sm"
                   className="gap-1"
                   onClick={() => hasSelection && parkFixtures(selectedFixtures)}
-                  disabled={!hasSelection || !apiClient?.isConnected()}
+                  disabled={!hasSelection || !isConnected || !outputBackend.capabilities.park}
                 >
                   <Lock className="w-3 h-3" />
                   Bloquear
@@ -367,7 +463,7 @@ export const ControlPanel: React.FC = () => {
                   size="sm"
                   className="gap-1"
                   onClick={() => hasSelection && unparkFixtures(selectedFixtures)}
-                  disabled={!hasSelection || !apiClient?.isConnected()}
+                  disabled={!hasSelection || !isConnected || !outputBackend.capabilities.park}
                 >
                   <Unlock className="w-3 h-3" />
                   Desbloquear
@@ -382,8 +478,14 @@ export const ControlPanel: React.FC = () => {
           </TabsContent>
 
           <TabsContent value="color" className="space-y-4 mt-4 overflow-y-auto custom-scrollbar max-h-[calc(100vh-280px)]">
+            {hasSelection && !hasColorMixing && (
+              <p className="text-sm text-muted-foreground">
+                The selected fixture types have no color mixing
+              </p>
+            )}
+
             {/* RGB Controls */}
-            <div className="space-y-4">
+            {(!hasSelection || hasColorMixing) && <div className="space-y-4">
               <div className="space-y-2">
                 <Label className="text-sm font-medium text-red-400">Red</Label>
                 <div className="flex items-center space-x-3">
@@ -473,13 +575,30 @@ export const ControlPanel: React.FC = () => {
                   ))}
                 </div>
               </div>
-            </div>
+            </div>}
           </TabsContent>
 
           <TabsContent value="setup" className="space-y-4 mt-4 overflow-y-auto custom-scrollbar max-h-[calc(100vh-280px)]">
-            {/* API Configuration */}
+            {/* Output backend for this room */}
             <div className="space-y-4">
               <div className="space-y-2">
+                <Label>Output</Label>
+                <Select value={backendOption.value} onValueChange={handleBackendChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {outputBackendOptions.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{backendOption.description}</p>
+              </div>
+
+              {backendOption.usesBaseUrl && <div className="space-y-2">
                 <Label htmlFor="api-url">API Base URL</Label>
                 <Input
                   id="api-url"
@@ -490,32 +609,36 @@ export const ControlPanel: React.FC = () => {
                 <p className="text-xs text-muted-foreground">
                   GrandMA2 configuration will be automatically retrieved from the API
                 </p>
-              </div>
+              </div>}
 
               <Button 
                 onClick={connectToApi}
                 className="w-full"
-                variant={(apiClient && apiClient.isConnected()) ? "secondary" : "default"}
+                variant={isConnected ? "secondary" : "default"}
               >
-                {(apiClient && apiClient.isConnected()) ? "Reconnect" : "Connect"} to API
+                {isConnected ? "Reconnect" : "Connect"}
               </Button>
 
-              {/* Show GrandMA2 config if connected */}
-              {(apiClient && apiClient.isConnected()) && (
+              {/* Show GrandMA2 config if the backend reached a console */}
+              {consoleConfig && (
                 <div className="space-y-2 p-3 bg-muted rounded-lg">
                   <Label className="text-sm font-medium">GrandMA2 Configuration</Label>
                   <div className="text-sm space-y-1">
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Host:</span>
-                      <span className="font-mono">{apiConfig.grandma2Host}</span>
+                      <span className="font-mono">{consoleConfig.host}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Port:</span>
-                      <span className="font-mono">{apiConfig.grandma2Port}</span>
+                      <span className="font-mono">{consoleConfig.port}</span>
                     </div>
                   </div>
                 </div>
               )}
+
+              {outputBackend instanceof SimulatorBackend && backendOption.value === 'simulator' && (
+                <ConsoleSimulatorPanel simulator={outputBackend.simulator} />
+              )}
             </div>
 
             {/* Room Dimensions */}
@@ -563,83 +686,20 @@ export const ControlPanel: React.FC = () => {
               </div>
             </div>
 
-            {/* Fixture Height */}
-            <div className="space-y-2">
-              <Label htmlFor="fixture-height">Fixture Height (meters)</Label>
-              <div className="flex items-center space-x-3">
-                <Input
-                  id="fixture-height"
-                  type="number"
-                  value={fixtures[0]?.z || 3}
-                  onChange={(e) => {
-                    const height = parseFloat(e.target.value) || 3;
-                    updateFixtureHeight(height);
-                  }}
-                  placeholder="3.0"
-                  step="0.1"
-                  min="0.1"
-                  max="20"
-                  className="flex-1"
-                />
-                <span className="text-sm text-muted-foreground">m</span>
-              </div>
-            </div>
+            {/* Positions */}
+            <PositionEditor />
 
-            {/* Fixture Spacing */}
-            <div className="space-y-2">
-              <Label htmlFor="fixture-spacing">Fixture Spacing (meters)</Label>
-              <div className="flex items-center space-x-3">
-                <Input
-                  id="fixture-spacing"
-                  type="number"
-                  defaultValue="2"
-                  onChange={(e) => {
-                    const spacing = parseFloat(e.target.value) || 2;
-                    adjustFixtureSpacing(spacing);
-                  }}
-                  placeholder="2.0"
-                  step="0.1"
-                  min="0.5"
-                  max="10"
-                  className="flex-1"
-                />
-                <span className="text-sm text-muted-foreground">m</span>
-              </div>
-            </div>
+            {/* Obstacles */}
+            <ObstacleEditor />
 
-            {/* Individual Fixture Positions */}
-            <div className="space-y-2">
-              <Label>Fixture Positions</Label>
-              <div className="grid grid-cols-2 gap-2 max-h-32 overflow-y-auto">
-                {fixtures.map(fixture => (
-                  <div key={fixture.id} className="flex items-center space-x-2 text-xs">
-                    <span className="w-4 text-muted-foreground">#{fixture.id}</span>
-                    <Input
-                      type="number"
-                      value={fixture.x}
-                      onChange={(e) => {
-                        const x = parseFloat(e.target.value) || 0;
-                        updateFixturePosition(fixture.id, x, fixture.y);
-                      }}
-                      step="0.1"
-                      className="h-6 text-xs flex-1"
-                      placeholder="X"
-                    />
-                    <Input
-                      type="number"
-                      value={fixture.y}
-                      onChange={(e) => {
-                        const y = parseFloat(e.target.value) || 0;
-                        updateFixturePosition(fixture.id, fixture.x, y);
-                      }}
-                      step="0.1"
-                      className="h-6 text-xs flex-1"
-                      placeholder="Y"
-                    />
-                  </div>
-                ))}
-              </div>
-            </div>
+            {/* Raised areas */}
+            <HeightZoneEditor />
+
+            {/* Fixture Types */}
+            <FixtureTypeLibrary />
+
+            {/* Patch */}
+            <PatchEditor />
 
             {/* Floor Plan Setup */}
             <FloorPlanUpload />
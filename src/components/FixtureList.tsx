@@ -4,11 +4,15 @@ import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Slider } from './ui/slider';
 import { useLightingStore } from '../stores/lightingStore';
-import { Lightbulb, Eye, EyeOff, Target } from 'lucide-react';
+import { targetDrift, TARGET_DRIFT_TOLERANCE } from '../utils/geometry';
+import { targetOccluder } from '../utils/obstacles';
+import { Lightbulb, Eye, EyeOff, Target, TriangleAlert } from 'lucide-react';
 
 export const FixtureList: React.FC = () => {
   const {
     fixtures,
+    obstacles,
+    groups,
     selectedFixtures,
     selectFixture,
     updateDimmer,
@@ -106,6 +110,8 @@ export const FixtureList: React.FC = () => {
           {fixtures.map((fixture) => {
             const isSelected = selectedFixtures.includes(fixture.id);
             const isActive = fixture.dimmer > 0;
+            const drift = targetDrift(fixture);
+            const occluder = targetOccluder(fixture, obstacles);
             
             return (
               <Card 
@@ -135,12 +141,43 @@ export const FixtureList: React.FC = () => {
                           }`} 
                         />
                         <span className="text-sm font-medium">
-                          Fixture {fixture.id}
+                          {fixture.name || `Fixture ${fixture.id}`}
                         </span>
                       </div>
                     </div>
                     
                     <div className="flex items-center gap-1">
+                      {occluder && (
+                        <Badge
+                          variant="outline"
+                          className="text-xs px-1.5 border-destructive/50 text-destructive"
+                          title={`The beam path to the target runs through ${occluder.name}`}
+                        >
+                          Blocked
+                        </Badge>
+                      )}
+                      {fixture.isClamped && (
+                        <Badge
+                          variant="destructive"
+                          className="text-xs px-1.5"
+                          title="The last target was outside the pan/tilt limits; the angles were clamped"
+                        >
+                          Clamped
+                        </Badge>
+                      )}
+                      {/* Pan/tilt no longer land on the stored target (clamped, or set on the console) */}
+                      {drift > TARGET_DRIFT_TOLERANCE && (
+                        <Badge
+                          variant="outline"
+                          className="text-xs px-1.5 gap-1 border-amber-500/50 text-amber-500"
+                          title={Number.isFinite(drift)
+                            ? `Beam lands ${drift.toFixed(2)}m from the stored target`
+                            : 'Beam never reaches the stored target height'}
+                        >
+                          <TriangleAlert className="w-3 h-3" />
+                          Off target
+                        </Badge>
+                      )}
                       <Badge 
                         variant={isActive ? "default" : "outline"}
                         className="text-xs px-2"
@@ -174,6 +211,17 @@ export const FixtureList: React.FC = () => {
                     />
                   </div>
 
+                  {/* Group Membership */}
+                  {groups.some(g => g.fixtureIds.includes(fixture.id)) && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {groups.filter(g => g.fixtureIds.includes(fixture.id)).map(g => (
+                        <Badge key={g.id} variant="secondary" className="text-xs px-1.5 py-0">
+                          {g.name}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+
                   {/* Position Info */}
                   <div className="mt-2 text-xs text-muted-foreground">
                     Position: {fixture.x.toFixed(1)}m, {fixture.y.toFixed(1)}m | Pan: {fixture.pan.toFixed(1)}° | Tilt: {fixture.tilt.toFixed(1)}°
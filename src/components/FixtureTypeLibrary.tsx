@@ -0,0 +1,315 @@
+import React, { useRef, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { useLightingStore } from '../stores/lightingStore';
+import { ColorSystem, FixtureType, FocusPoint, Photometrics } from '../types/lighting';
+import { getFixtureType } from '../utils/fixtureTypes';
+import { parseGdtfFile } from '../utils/gdtf';
+import { DEFAULT_FIELD_ANGLE_RATIO } from '../utils/photometrics';
+import { Plus, Trash2, ChevronDown, ChevronRight, Upload } from 'lucide-react';
+import { useToast } from '../hooks/use-toast';
+
+const colorSystems: { value: ColorSystem; label: string }[] = [
+  { value: 'rgb', label: 'RGB' },
+  { value: 'rgbw', label: 'RGBW' },
+  { value: 'cmy', label: 'CMY' },
+  { value: 'wheel', label: 'Color wheel' },
+  { value: 'none', label: 'None' },
+];
+
+const featureLabels: { key: keyof FixtureType['features']; label: string }[] = [
+  { key: 'iris', label: 'Iris' },
+  { key: 'frost', label: 'Frost' },
+  { key: 'gobo', label: 'Gobo' },
+  { key: 'cmy', label: 'CMY' },
+];
+
+// Focus curves are edited as "distance:focus" pairs, e.g. "3:10, 10:55, 25:90"
+const formatFocusCurve = (curve?: FocusPoint[]) =>
+  (curve ?? []).map(p => `${p.distance}:${p.focus}`).join(', ');
+
+const parseFocusCurve = (text: string): FocusPoint[] | undefined => {
+  const points = text
+    .split(',')
+    .map(pair => pair.split(':').map(v => parseFloat(v)))
+    .filter(([distance, focus]) => distance > 0 && focus >= 0 && focus <= 100)
+    .map(([distance, focus]) => ({ distance, focus }))
+    .sort((a, b) => a.distance - b.distance);
+  return points.length > 0 ? points : undefined;
+};
+
+export const FixtureTypeLibrary: React.FC = () => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const {
+    fixtures,
+    fixtureTypes,
+    addFixtureType,
+    updateFixtureType,
+    deleteFixtureType
+  } = useLightingStore();
+
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const handleAddType = () => {
+    const template = getFixtureType(fixtureTypes, { typeId: '' });
+    const id = `custom-${Date.now()}`;
+    addFixtureType({
+      ...template,
+      id,
+      name: 'New Fixture Type',
+      manufacturer: 'Custom'
+    });
+    setExpandedId(id);
+  };
+
+  const handleGdtfSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const fixtureType = await parseGdtfFile(file);
+      const exists = fixtureTypes.some(t => t.id === fixtureType.id);
+      if (exists) {
+        updateFixtureType(fixtureType.id, fixtureType);
+      } else {
+        addFixtureType(fixtureType);
+      }
+      setExpandedId(fixtureType.id);
+
+      const features = Object.entries(fixtureType.features)
+        .filter(([, enabled]) => enabled)
+        .map(([feature]) => feature);
+      toast({
+        title: exists ? "Fixture type updated" : "Fixture type imported",
+        description: `${fixtureType.manufacturer} ${fixtureType.name}: pan ${fixtureType.panRange.min}°…${fixtureType.panRange.max}°, ` +
+          `tilt ${fixtureType.tiltRange.min}°…${fixtureType.tiltRange.max}°, ` +
+          `beam ${fixtureType.zoomRange.min}°–${fixtureType.zoomRange.max}°` +
+          (features.length > 0 ? `, ${features.join('/')}` : '')
+      });
+    } catch (error) {
+      toast({
+        title: "GDTF import failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDeleteType = (fixtureType: FixtureType) => {
+    const inUse = fixtures.filter(f => f.typeId === fixtureType.id).length;
+    const message = inUse > 0
+      ? `${inUse} fixture(s) use "${fixtureType.name}" and will fall back to the default type. Delete it?`
+      : `Delete fixture type "${fixtureType.name}"?`;
+    if (confirm(message)) {
+      deleteFixtureType(fixtureType.id);
+    }
+  };
+
+  const rangeInputs = (
+    fixtureType: FixtureType,
+    key: 'panRange' | 'tiltRange' | 'zoomRange',
+    label: string
+  ) => (
+    <div className="space-y-1">
+      <span className="text-muted-foreground">{label}</span>
+      <div className="flex gap-1">
+        {(['min', 'max'] as const).map(bound => (
+          <Input
+            key={bound}
+            type="number"
+            value={fixtureType[key][bound]}
+            onChange={(e) => updateFixtureType(fixtureType.id, {
+              [key]: { ...fixtureType[key], [bound]: parseFloat(e.target.value) || 0 }
+            })}
+            step="1"
+            className="h-6 text-xs flex-1 min-w-0"
+            placeholder={bound === 'min' ? 'Min' : 'Max'}
+            title={bound === 'min' ? 'Min' : 'Max'}
+          />
+        ))}
+      </div>
+    </div>
+  );
+
+  const photometricInput = (
+    fixtureType: FixtureType,
+    key: keyof Photometrics,
+    label: string,
+    placeholder: string
+  ) => (
+    <div className="space-y-1">
+      <span className="text-muted-foreground">{label}</span>
+      <Input
+        type="number"
+        value={fixtureType.photometrics?.[key] ?? ''}
+        onChange={(e) => {
+          // A field angle is always wider than the beam angle
+          const value = parseFloat(e.target.value);
+          const isValid = value > (key === 'fieldAngleRatio' ? 1 : 0);
+          updateFixtureType(fixtureType.id, {
+            photometrics: { ...fixtureType.photometrics, [key]: isValid ? value : undefined }
+          });
+        }}
+        step={key === 'fieldAngleRatio' ? '0.1' : '100'}
+        min="0"
+        className="h-6 text-xs"
+        placeholder={placeholder}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Fixture Types</Label>
+        <div className="flex gap-1">
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-6 px-2 gap-1 text-xs"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="w-3 h-3" />
+            GDTF
+          </Button>
+          <Button variant="outline" size="sm" className="h-6 px-2 gap-1 text-xs" onClick={handleAddType}>
+            <Plus className="w-3 h-3" />
+            New Type
+          </Button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".gdtf"
+          onChange={handleGdtfSelect}
+          className="hidden"
+        />
+      </div>
+
+      <div className="space-y-1 max-h-64 overflow-y-auto custom-scrollbar">
+        {fixtureTypes.map(fixtureType => {
+          const isExpanded = expandedId === fixtureType.id;
+          const count = fixtures.filter(f => getFixtureType(fixtureTypes, f).id === fixtureType.id).length;
+
+          return (
+            <div key={fixtureType.id} className="space-y-1">
+              <div className="flex items-center gap-2 text-xs">
+                <button
+                  type="button"
+                  className="w-3 text-muted-foreground"
+                  onClick={() => setExpandedId(isExpanded ? null : fixtureType.id)}
+                  title="Edit type"
+                >
+                  {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                </button>
+                <span className="flex-1 truncate">
+                  {fixtureType.manufacturer} {fixtureType.name}
+                </span>
+                <Badge variant="outline" className="text-xs px-1">
+                  {count}
+                </Badge>
+                {!fixtureType.builtIn && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    onClick={() => handleDeleteType(fixtureType)}
+                    title={`Delete ${fixtureType.name}`}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                )}
+              </div>
+
+              {isExpanded && (
+                <div className="ml-5 p-2 bg-muted rounded space-y-2 text-xs">
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                      <span className="text-muted-foreground">Manufacturer</span>
+                      <Input
+                        value={fixtureType.manufacturer}
+                        onChange={(e) => updateFixtureType(fixtureType.id, { manufacturer: e.target.value })}
+                        className="h-6 text-xs"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <span className="text-muted-foreground">Name</span>
+                      <Input
+                        value={fixtureType.name}
+                        onChange={(e) => updateFixtureType(fixtureType.id, { name: e.target.value })}
+                        className="h-6 text-xs"
+                      />
+                    </div>
+                    {rangeInputs(fixtureType, 'panRange', 'Pan (°)')}
+                    {rangeInputs(fixtureType, 'tiltRange', 'Tilt (°)')}
+                    {rangeInputs(fixtureType, 'zoomRange', 'Beam angle (°)')}
+                    <div className="space-y-1">
+                      <span className="text-muted-foreground">Color mixing</span>
+                      <Select
+                        value={fixtureType.colorSystem}
+                        onValueChange={(colorSystem: ColorSystem) => updateFixtureType(fixtureType.id, { colorSystem })}
+                      >
+                        <SelectTrigger className="h-6 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {colorSystems.map(c => (
+                            <SelectItem key={c.value} value={c.value} className="text-xs">
+                              {c.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    {featureLabels.map(({ key, label }) => (
+                      <div key={key} className="flex items-center justify-between">
+                        <span className="text-muted-foreground">{label}</span>
+                        <Switch
+                          checked={fixtureType.features[key]}
+                          onCheckedChange={(checked) => updateFixtureType(fixtureType.id, {
+                            features: { ...fixtureType.features, [key]: checked }
+                          })}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  {/* Light output for the lux heatmap */}
+                  <div className="grid grid-cols-3 gap-2">
+                    {photometricInput(fixtureType, 'luminousFlux', 'Flux (lm)', 'Unknown')}
+                    {photometricInput(fixtureType, 'peakIntensity', 'or peak (cd)', 'Unknown')}
+                    {photometricInput(fixtureType, 'fieldAngleRatio', 'Field / beam', DEFAULT_FIELD_ANGLE_RATIO.toString())}
+                  </div>
+                  {/* Sharp focus by throw, for fixtures with a spot size */}
+                  <div className="space-y-1">
+                    <span className="text-muted-foreground">Focus curve (m:%)</span>
+                    <Input
+                      key={formatFocusCurve(fixtureType.focusCurve)}
+                      defaultValue={formatFocusCurve(fixtureType.focusCurve)}
+                      onBlur={(e) => updateFixtureType(fixtureType.id, { focusCurve: parseFocusCurve(e.target.value) })}
+                      className="h-6 text-xs"
+                      placeholder="e.g. 3:10, 10:55, 25:90"
+                      title="Focus that gives a sharp edge at each throw distance; left alone when empty"
+                    />
+                  </div>
+                  {fixtureType.gobos && (
+                    <div className="text-muted-foreground">
+                      Gobos: {fixtureType.gobos.map(g => g.name).join(', ')}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -1,30 +1,252 @@
 
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
 import { useLightingStore } from '../stores/lightingStore';
-import { pixelToReal, realToPixel, calculateLightCone } from '../utils/geometry';
+import {
+  pixelToReal,
+  realToPixel,
+  calculateBeamFootprint,
+  calculateBeamLanding,
+  calculateReachMap,
+  isTargetReachable,
+  ReachMap,
+  targetDrift,
+  TARGET_DRIFT_TOLERANCE
+} from '../utils/geometry';
+import { getFixtureType, zoomToBeamAngle } from '../utils/fixtureTypes';
+import { findOccluder, targetOccluder } from '../utils/obstacles';
+import { aimHeightAt, surfaceHeightAt } from '../utils/heightZones';
+import { IlluminanceMap, beamsKey, calculateIlluminanceMap, illuminanceAt, rigBeams, zonePeakIlluminance } from '../utils/photometrics';
+import { AimTarget, assignFixturesToTargets } from '../utils/assignment';
+import { FanShape, FanShapeKind, arcCircle, fanTargets } from '../utils/fan';
+import { FormationTransform, IDENTITY_FORMATION, formationCentroid, transformFormation } from '../utils/formation';
+import { Fixture, FixtureType } from '../types/lighting';
+import { TargetHeightControl } from './TargetHeightControl';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Switch } from './ui/switch';
+import { Radar, Box, Layers, Sun, Crosshair, Spline, Move } from 'lucide-react';
+import { useToast } from '../hooks/use-toast';
+
+// Heatmap colours by illuminance, spaced around common conservation limits (50, 150, 300 lx)
+const LUX_SCALE: { lux: number; color: [number, number, number] }[] = [
+  { lux: 0, color: [30, 40, 120] },
+  { lux: 50, color: [40, 120, 220] },
+  { lux: 150, color: [40, 190, 120] },
+  { lux: 300, color: [230, 220, 60] },
+  { lux: 1000, color: [240, 140, 40] },
+  { lux: 3000, color: [220, 40, 40] }
+];
+
+const luxColor = (lux: number): [number, number, number] => {
+  const upper = LUX_SCALE.findIndex(stop => stop.lux >= lux);
+  if (upper === -1) return LUX_SCALE[LUX_SCALE.length - 1].color;
+  if (upper === 0) return LUX_SCALE[0].color;
+  const a = LUX_SCALE[upper - 1];
+  const b = LUX_SCALE[upper];
+  const t = (lux - a.lux) / (b.lux - a.lux);
+  return a.color.map((c, i) => Math.round(c + (b.color[i] - c) * t)) as [number, number, number];
+};
+
+// Reach shading only needs to show the rough edge of the reachable area, in meters
+const REACH_CELL_SIZE = 0.5;
+
+// What a fixture's reach depends on; the current pan/tilt only picks between reachable solutions
+const reachKey = (fixture: Fixture, fixtureType: FixtureType) => JSON.stringify([
+  fixture.x, fixture.y, fixture.z, fixture.mounting,
+  fixture.panOffset, fixture.tiltOffset, fixture.panInverted, fixture.tiltInverted,
+  fixtureType.panRange, fixtureType.tiltRange
+]);
+
+// Distance of the formation's scale and rotate handles from its centroid, in pixels
+const FORMATION_HANDLE_PX = 48;
+
+// Where the scale and rotate handles sit for a formation centred on a point
+const formationHandles = (center: { x: number; y: number }, transform: FormationTransform, pixelsPerMeter: number) => {
+  const offset = (FORMATION_HANDLE_PX / pixelsPerMeter) * transform.scale;
+  const cos = Math.cos(transform.rotation);
+  const sin = Math.sin(transform.rotation);
+  return {
+    scale: { x: center.x + offset * cos, y: center.y + offset * sin },
+    rotate: { x: center.x - offset * sin, y: center.y + offset * cos }
+  };
+};
 
 export const FloorPlan: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [canvasSize, setCanvasSize] = useState({ width: 800, height: 600 });
   const [imageLoaded, setImageLoaded] = useState(false);
+  const [showReach, setShowReach] = useState(false);
+  const [showLux, setShowLux] = useState(false);
+  const [hoverLux, setHoverLux] = useState<{ x: number; y: number; lux: number } | null>(null);
+  // Outline being drawn (an obstacle or a raised zone); null when not drawing
+  const [draft, setDraft] = useState<{ kind: 'obstacle' | 'zone'; points: { x: number; y: number }[] } | null>(null);
+  const [draftHeight, setDraftHeight] = useState('2');
+  // Targets collected for auto-assignment; null when not collecting
+  const [multiTargets, setMultiTargets] = useState<AimTarget[] | null>(null);
+  const [fullCoverage, setFullCoverage] = useState(false);
+  const [targetSpot, setTargetSpot] = useState(''); // Spot size for targets clicked from now on; empty keeps each fixture's own
+  // Shape being dragged out for the fan tool; null when not fanning
+  const [fan, setFan] = useState<{ kind: FanShapeKind; start: { x: number; y: number } | null; end: { x: number; y: number } | null } | null>(null);
+  const [fanBend, setFanBend] = useState('60');
+  const fanDragging = useRef(false);
+  // Formation mode moves the selection's targets as one; the drag is previewed and sent on release
+  const [formationMode, setFormationMode] = useState(false);
+  const [formationDrag, setFormationDrag] = useState<{
+    handle: 'move' | 'scale' | 'rotate';
+    from: { x: number; y: number };
+    to: { x: number; y: number };
+  } | null>(null);
   const imageRef = useRef<HTMLImageElement | null>(null);
+  const { toast } = useToast();
   
   const {
     fixtures,
+    fixtureTypes,
+    positions,
+    obstacles,
+    heightZones,
     floorPlan,
     selectedFixtures,
+    groups,
     targetPoint,
+    targetHeight,
     scale,
     selectFixture,
+    recallGroup,
     aimFixtureAt,
     aimMultipleFixturesAt,
-    setTargetPoint
+    setTargetPoint,
+    aimFixturesAtPoints,
+    addObstacle,
+    addHeightZone
   } = useLightingStore();
 
-  // Handle canvas click (accounting for 90° rotation)
-  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+  const startDraft = (kind: 'obstacle' | 'zone') => {
+    if (draft?.kind === kind) {
+      setDraft(null);
+      return;
+    }
+    setMultiTargets(null);
+    setFan(null);
+    setFormationMode(false);
+    setDraft({ kind, points: [] });
+    setDraftHeight(kind === 'obstacle' ? '2' : '0.5');
+  };
+
+  const finishDraft = () => {
+    if (!draft || draft.points.length < 3) return;
+    const height = Math.max(0, parseFloat(draftHeight) || 0);
+    if (draft.kind === 'obstacle') {
+      addObstacle({ name: `Obstacle ${obstacles.length + 1}`, points: draft.points, height });
+    } else {
+      addHeightZone({ name: `Raised area ${heightZones.length + 1}`, points: draft.points, height });
+    }
+    setDraft(null);
+  };
+
+  // Share the selected fixtures out over the collected targets and aim them in one batch
+  const assignTargets = () => {
+    if (!multiTargets || multiTargets.length === 0) return;
+    const selected = fixtures.filter(f => selectedFixtures.includes(f.id));
+    const result = assignFixturesToTargets(selected, f => getFixtureType(fixtureTypes, f), multiTargets, obstacles);
+    const targetList = (indexes: number[]) => indexes.map(i => i + 1).join(', ');
+
+    if (fullCoverage && result.uncoveredTargets.length > 0) {
+      toast({
+        title: "Can't cover every target",
+        description: `No selected fixture can light target${result.uncoveredTargets.length > 1 ? 's' : ''} ` +
+          `${targetList(result.uncoveredTargets)} - nothing was moved`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    aimFixturesAtPoints(result.assignments.map(a => ({ fixtureId: a.fixtureId, ...multiTargets[a.targetIndex] })));
+    const notes = [
+      result.uncoveredTargets.length > 0 && `target ${targetList(result.uncoveredTargets)} not covered`,
+      result.idleFixtures.length > 0 && `fixture ${result.idleFixtures.join(', ')} can't reach any target`
+    ].filter(Boolean);
+    toast({
+      title: "Fixtures assigned",
+      description: `${result.assignments.length} fixture${result.assignments.length === 1 ? '' : 's'} on ` +
+        `${multiTargets.length - result.uncoveredTargets.length} of ${multiTargets.length} targets` +
+        (notes.length > 0 ? ` (${notes.join('; ')})` : ''),
+      variant: notes.length > 0 ? "destructive" : "default"
+    });
+    setMultiTargets(null);
+  };
+
+  // The fan shape once both ends are down, with the bend from the panel
+  const fanShape = useMemo<FanShape | null>(() => (fan?.start && fan.end
+    ? { kind: fan.kind, start: fan.start, end: fan.end, bend: parseFloat(fanBend) || 0 }
+    : null), [fan, fanBend]);
+
+  // Spread the selection over the fan shape in selection order and aim it in one batch
+  const applyFan = () => {
+    if (!fanShape || selectedFixtures.length === 0) return;
+    const targets = fanTargets(fanShape, selectedFixtures.length);
+    aimFixturesAtPoints(selectedFixtures.map((fixtureId, index) => ({ fixtureId, ...targets[index] })));
+
+    const clamped = useLightingStore.getState().fixtures
+      .filter(f => selectedFixtures.includes(f.id) && f.isClamped)
+      .map(f => f.id);
+    toast({
+      title: "Fan applied",
+      description: `${selectedFixtures.length} fixture${selectedFixtures.length === 1 ? '' : 's'} spread over a ${fanShape.kind}` +
+        (clamped.length > 0 ? ` (out of reach, pan/tilt clamped: ${clamped.join(', ')})` : ''),
+      variant: clamped.length > 0 ? "destructive" : "default"
+    });
+    setFan(null);
+  };
+
+  // The selected fixtures' own targets, in selection order
+  const formationBase = useMemo(() => selectedFixtures
+    .map(id => fixtures.find(f => f.id === id))
+    .filter((f): f is NonNullable<typeof f> => f !== undefined)
+    .map(f => ({ fixtureId: f.id, x: f.targetX, y: f.targetY, z: f.targetZ ?? 0 })), [fixtures, selectedFixtures]);
+
+  const formationTransform = useMemo<FormationTransform>(() => {
+    if (!formationDrag) return IDENTITY_FORMATION;
+    const { handle, from, to } = formationDrag;
+    if (handle === 'move') return { ...IDENTITY_FORMATION, dx: to.x - from.x, dy: to.y - from.y };
+
+    const center = formationCentroid(formationBase);
+    const before = { x: from.x - center.x, y: from.y - center.y };
+    const after = { x: to.x - center.x, y: to.y - center.y };
+    if (handle === 'scale') {
+      return { ...IDENTITY_FORMATION, scale: Math.max(0.05, Math.hypot(after.x, after.y) / (Math.hypot(before.x, before.y) || 1)) };
+    }
+    return { ...IDENTITY_FORMATION, rotation: Math.atan2(after.y, after.x) - Math.atan2(before.y, before.x) };
+  }, [formationDrag, formationBase]);
+
+  // Send the dragged formation in one batch, each fixture to its own moved target
+  const commitFormation = () => {
+    if (!formationDrag) return;
+    setFormationDrag(null);
+    if (formationBase.length === 0) return;
+    // Each target keeps its height above the surface under it, so one moved onto a raised zone rises with it
+    aimFixturesAtPoints(transformFormation(formationBase, formationTransform).map(({ fixtureId, x, y, z }, index) => {
+      const from = formationBase[index];
+      const above = z - surfaceHeightAt(heightZones, from.x, from.y);
+      return { fixtureId, x, y, z: surfaceHeightAt(heightZones, x, y) + above };
+    }));
+
+    const clamped = useLightingStore.getState().fixtures
+      .filter(f => selectedFixtures.includes(f.id) && f.isClamped)
+      .map(f => f.id);
+    if (clamped.length > 0) {
+      toast({
+        title: "Not every fixture can keep the formation",
+        description: `Out of reach, pan/tilt clamped: ${clamped.join(', ')}`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Mouse position in canvas coordinates (accounting for 90° rotation)
+  const eventToCanvas = (event: React.MouseEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (!canvas) return null;
 
     const rect = canvas.getBoundingClientRect();
     
@@ -38,14 +260,15 @@ export const FloorPlan: React.FC = () => {
     // - Visual right (clickX=width) → Canvas top (canvasY=0)
     // - Visual top (clickY=0) → Canvas left (canvasX=0)
     // - Visual bottom (clickY=height) → Canvas right (canvasX=width)
-    const canvasX = (clickY / rect.height) * canvasSize.width;
-    const canvasY = canvasSize.height - (clickX / rect.width) * canvasSize.height;
-    
-    // Calculate pixels per meter
+    return {
+      x: (clickY / rect.height) * canvasSize.width,
+      y: canvasSize.height - (clickX / rect.width) * canvasSize.height
+    };
+  };
+
+  // Fixture drawn under a canvas point (20px radius), if any
+  const fixtureAtCanvas = (canvasX: number, canvasY: number): number | null => {
     const pixelsPerMeter = canvasSize.width / floorPlan.width;
-    
-    // Check if clicked on a fixture (20px radius)
-    let clickedFixture: number | null = null;
     for (const fixture of fixtures) {
       const pixel = realToPixel(fixture.x, fixture.y, {
         width: floorPlan.width,
@@ -58,16 +281,112 @@ export const FloorPlan: React.FC = () => {
       );
       
       if (distance <= 20) {
-        clickedFixture = fixture.id;
-        break;
+        return fixture.id;
       }
     }
+    return null;
+  };
+
+  // Pressing down starts a fan shape or a formation drag
+  const handleCanvasMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!fan && !formationMode) return;
+    const position = eventToCanvas(event);
+    if (!position) return;
+
+    const pixelsPerMeter = canvasSize.width / floorPlan.width;
+    const real = pixelToReal(position.x, position.y, {
+      width: floorPlan.width,
+      height: floorPlan.height,
+      pixelsPerMeter
+    });
+
+    if (fan) {
+      fanDragging.current = true;
+      setFan({ ...fan, start: real, end: real });
+      return;
+    }
+
+    // Fixtures stay clickable for changing the selection
+    if (formationBase.length === 0 || fixtureAtCanvas(position.x, position.y) !== null) return;
+
+    const center = formationCentroid(formationBase);
+    const handles = formationHandles(center, IDENTITY_FORMATION, pixelsPerMeter);
+    const onHandle = (point: { x: number; y: number }) => {
+      const pixel = realToPixel(point.x, point.y, { width: floorPlan.width, height: floorPlan.height, pixelsPerMeter });
+      return Math.hypot(position.x - pixel.x, position.y - pixel.y) <= 10;
+    };
+    if (formationBase.length > 1 && onHandle(handles.scale)) {
+      setFormationDrag({ handle: 'scale', from: handles.scale, to: real });
+    } else if (formationBase.length > 1 && onHandle(handles.rotate)) {
+      setFormationDrag({ handle: 'rotate', from: handles.rotate, to: real });
+    } else {
+      // Anywhere else the centroid jumps to the pointer and follows it
+      setFormationDrag({ handle: 'move', from: center, to: real });
+    }
+  };
+
+  const handleCanvasMouseUp = () => {
+    fanDragging.current = false;
+    commitFormation();
+  };
+
+  // Read out the light level under the cursor while the heatmap is shown, and drag fan shapes
+  const handleCanvasMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!showLux && !(fan && fanDragging.current) && !formationDrag) return;
+    const position = eventToCanvas(event);
+    if (!position) return;
+
+    const real = pixelToReal(position.x, position.y, {
+      width: floorPlan.width,
+      height: floorPlan.height,
+      pixelsPerMeter: canvasSize.width / floorPlan.width
+    });
+    if (fan && fanDragging.current) {
+      setFan({ ...fan, end: real });
+    }
+    if (formationDrag) {
+      setFormationDrag({ ...formationDrag, to: real });
+    }
+    if (!showLux) return;
+    const z = surfaceHeightAt(heightZones, real.x, real.y);
+    setHoverLux({ x: real.x, y: real.y, lux: illuminanceAt(beams, obstacles, real.x, real.y, z) });
+  };
+
+  // Handle canvas click
+  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const position = eventToCanvas(event);
+    if (!position) return;
+    const canvasX = position.x;
+    const canvasY = position.y;
+    
+    // Calculate pixels per meter
+    const pixelsPerMeter = canvasSize.width / floorPlan.width;
+
+    // The fan tool works by dragging, so clicks don't select or aim anything
+    if (fan) return;
+
+    // While drawing an outline every click is a corner
+    if (draft) {
+      const corner = pixelToReal(canvasX, canvasY, {
+        width: floorPlan.width,
+        height: floorPlan.height,
+        pixelsPerMeter
+      });
+      setDraft({ ...draft, points: [...draft.points, corner] });
+      return;
+    }
+    
+    // Check if clicked on a fixture
+    const clickedFixture = fixtureAtCanvas(canvasX, canvasY);
     
     // If clicked on a fixture, select it
     if (clickedFixture !== null) {
       selectFixture(clickedFixture, event.shiftKey);
       return;
     }
+
+    // Formation moves happen on press and release
+    if (formationMode) return;
     
     // Convert pixel coordinates to real world coordinates
     const realCoords = pixelToReal(canvasX, canvasY, {
@@ -76,10 +395,47 @@ export const FloorPlan: React.FC = () => {
       pixelsPerMeter: pixelsPerMeter
     });
 
+    // Collecting targets for auto-assignment: nothing moves until they're assigned
+    if (multiTargets) {
+      const spotDiameter = parseFloat(targetSpot);
+      setMultiTargets([...multiTargets, {
+        ...realCoords,
+        z: aimHeightAt(heightZones, targetHeight, realCoords.x, realCoords.y),
+        spotDiameter: spotDiameter > 0 ? spotDiameter : undefined
+      }]);
+      return;
+    }
+
     setTargetPoint(realCoords.x, realCoords.y);
 
     // Aim selected fixtures at clicked point
     if (selectedFixtures.length > 0) {
+      const aimZ = aimHeightAt(heightZones, targetHeight, realCoords.x, realCoords.y);
+
+      // Out-of-reach or blocked fixtures are still aimed as well as they can be, but we say so
+      const selected = fixtures.filter(f => selectedFixtures.includes(f.id));
+      const unreachable = selected.filter(f =>
+        !isTargetReachable(f, getFixtureType(fixtureTypes, f), realCoords.x, realCoords.y, aimZ)
+      );
+      const blocked = selected
+        .map(f => ({ fixture: f, obstacle: findOccluder(f, obstacles, realCoords.x, realCoords.y, aimZ) }))
+        .filter(b => b.obstacle !== null);
+
+      const warnings: string[] = [];
+      if (unreachable.length > 0) {
+        warnings.push(`Out of reach, pan/tilt clamped: ${unreachable.map(f => f.id).join(', ')}`);
+      }
+      if (blocked.length > 0) {
+        warnings.push(`Can't see it: ${blocked.map(b => `${b.fixture.id} (${b.obstacle!.name})`).join(', ')}`);
+      }
+      if (warnings.length > 0) {
+        toast({
+          title: "Not every fixture can light this point",
+          description: warnings.join('. '),
+          variant: "destructive"
+        });
+      }
+
       if (selectedFixtures.length === 1) {
         aimFixtureAt(selectedFixtures[0], realCoords.x, realCoords.y);
       } else {
@@ -148,6 +504,66 @@ export const FloorPlan: React.FC = () => {
     return () => window.removeEventListener('resize', updateCanvasSize);
   }, [floorPlan.width, floorPlan.height]);
 
+  // Reach maps for the selected fixtures, kept until a fixture moves or the surfaces it aims at change
+  const reachCache = useRef<{ surfaces: string; maps: Map<number, { key: string; reach: ReachMap }> }>({ surfaces: '', maps: new Map() });
+  const reachMaps = useMemo<ReachMap[]>(() => {
+    if (!showReach) return [];
+    const surfaces = JSON.stringify([heightZones, targetHeight, floorPlan.width, floorPlan.height]);
+    const cache = reachCache.current;
+    if (cache.surfaces !== surfaces) cache.maps.clear();
+    cache.surfaces = surfaces;
+
+    return fixtures.filter(f => f.isSelected).map(fixture => {
+      const fixtureType = getFixtureType(fixtureTypes, fixture);
+      const key = reachKey(fixture, fixtureType);
+      const cached = cache.maps.get(fixture.id);
+      if (cached?.key === key) return cached.reach;
+
+      const reach = calculateReachMap(
+        fixture,
+        fixtureType,
+        floorPlan.width,
+        floorPlan.height,
+        (x, y) => aimHeightAt(heightZones, targetHeight, x, y),
+        REACH_CELL_SIZE
+      );
+      cache.maps.set(fixture.id, { key, reach });
+      return reach;
+    });
+  }, [showReach, fixtures, fixtureTypes, heightZones, targetHeight, floorPlan.width, floorPlan.height]);
+
+  // Light from the rig; the heatmap and zone peaks are only recalculated when what they light changes
+  const beams = useMemo(() => rigBeams(fixtures, f => getFixtureType(fixtureTypes, f)), [fixtures, fixtureTypes]);
+  const lightCache = useRef<{ luxKey: string; lux: IlluminanceMap | null; peaksKey: string; peaks: Map<string, number> }>({
+    luxKey: '',
+    lux: null,
+    peaksKey: '',
+    peaks: new Map()
+  });
+
+  const luxMap = useMemo<IlluminanceMap | null>(() => {
+    if (!showLux) return null;
+    const cache = lightCache.current;
+    const key = JSON.stringify([beamsKey(beams), obstacles, heightZones, floorPlan.width, floorPlan.height]);
+    if (cache.luxKey !== key || !cache.lux) {
+      cache.lux = calculateIlluminanceMap(beams, obstacles, heightZones, floorPlan.width, floorPlan.height);
+      cache.luxKey = key;
+    }
+    return cache.lux;
+  }, [showLux, beams, obstacles, heightZones, floorPlan.width, floorPlan.height]);
+
+  // Peak lux on each zone that has a conservation limit, by zone id
+  const zonePeaks = useMemo<Map<string, number>>(() => {
+    const limited = heightZones.filter(zone => zone.luxLimit);
+    const cache = lightCache.current;
+    const key = JSON.stringify([beamsKey(beams), obstacles, limited]);
+    if (cache.peaksKey !== key) {
+      cache.peaks = new Map(limited.map(zone => [zone.id, zonePeakIlluminance(beams, obstacles, zone)]));
+      cache.peaksKey = key;
+    }
+    return cache.peaks;
+  }, [beams, obstacles, heightZones]);
+
   // Draw the floor plan
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -171,10 +587,26 @@ export const FloorPlan: React.FC = () => {
       ctx.save();
       ctx.globalAlpha = 0.7;
       
-      // Rotate image 90° counter-clockwise to match canvas rotation
-      ctx.translate(canvasSize.width / 2, canvasSize.height / 2);
-      ctx.rotate(-90 * Math.PI / 180);
-      ctx.drawImage(imageRef.current, -canvasSize.height / 2, -canvasSize.width / 2, canvasSize.height, canvasSize.width);
+      const registration = floorPlan.imageTransform;
+      if (registration) {
+        // Registered plan: image pixels -> meters -> canvas (Y flipped for the bottom-left origin)
+        const a = registration.scale * Math.cos((registration.rotation * Math.PI) / 180);
+        const b = registration.scale * Math.sin((registration.rotation * Math.PI) / 180);
+        ctx.transform(
+          pixelsPerMeter * a,
+          -pixelsPerMeter * b,
+          pixelsPerMeter * b,
+          pixelsPerMeter * a,
+          pixelsPerMeter * registration.offsetX,
+          canvasSize.height - pixelsPerMeter * registration.offsetY
+        );
+        ctx.drawImage(imageRef.current, 0, 0);
+      } else {
+        // Rotate image 90° counter-clockwise to match canvas rotation
+        ctx.translate(canvasSize.width / 2, canvasSize.height / 2);
+        ctx.rotate(-90 * Math.PI / 180);
+        ctx.drawImage(imageRef.current, -canvasSize.height / 2, -canvasSize.width / 2, canvasSize.height, canvasSize.width);
+      }
       
       ctx.restore();
       ctx.globalAlpha = 1;
@@ -221,14 +653,90 @@ export const FloorPlan: React.FC = () => {
         }
       }
 
-      // Draw individual light cones for ALL fixtures
+      // Light levels on the floor and raised surfaces
+      if (luxMap) {
+        const cellPixels = luxMap.cellSize * pixelsPerMeter;
+        luxMap.values.forEach((value, index) => {
+          const column = index % luxMap.columns;
+          const row = Math.floor(index / luxMap.columns);
+          const [r, g, b] = luxColor(value);
+          ctx.fillStyle = `rgba(${r}, ${g}, ${b}, 0.55)`;
+          // Rows count up from y = 0, which is the bottom of the canvas
+          ctx.fillRect(column * cellPixels, canvasSize.height - (row + 1) * cellPixels, cellPixels + 0.5, cellPixels + 0.5);
+        });
+      }
+
+      // Raised zones, drawn under the light so footprints on them stay visible
+      heightZones.forEach(zone => {
+        // Zones holding light-sensitive objects are checked against their lux limit
+        const peakLux = zonePeaks.get(zone.id) ?? 0;
+        const overLimit = zone.luxLimit !== undefined && peakLux > zone.luxLimit;
+        if (zone.points.length < 3) return;
+        const pixels = zone.points.map(point => realToPixel(point.x, point.y, {
+          width: floorPlan.width,
+          height: floorPlan.height,
+          pixelsPerMeter
+        }));
+
+        ctx.fillStyle = 'hsla(200, 60%, 45%, 0.18)';
+        ctx.strokeStyle = overLimit ? 'hsl(0, 75%, 55%)' : 'hsl(200, 60%, 60%)';
+        ctx.lineWidth = overLimit ? 2.5 : 1;
+        ctx.setLineDash(overLimit ? [] : [6, 3]);
+        ctx.beginPath();
+        pixels.forEach((pixel, index) => {
+          if (index === 0) ctx.moveTo(pixel.x, pixel.y);
+          else ctx.lineTo(pixel.x, pixel.y);
+        });
+        ctx.closePath();
+        ctx.fill();
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        const center = {
+          x: pixels.reduce((sum, p) => sum + p.x, 0) / pixels.length,
+          y: pixels.reduce((sum, p) => sum + p.y, 0) / pixels.length
+        };
+        ctx.fillStyle = 'hsl(200, 60%, 75%)';
+        ctx.font = '10px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(`${zone.name} +${zone.height}m`, center.x, center.y);
+        if (zone.luxLimit) {
+          ctx.fillStyle = overLimit ? 'hsl(0, 75%, 60%)' : 'hsl(200, 60%, 75%)';
+          ctx.font = overLimit ? 'bold 10px sans-serif' : '10px sans-serif';
+          ctx.fillText(`${Math.round(peakLux)} / ${zone.luxLimit} lx`, center.x, center.y + 12);
+        }
+      });
+
+      // Shade the area each selected fixture can reach at the current target height
+      if (showReach) {
+        reachMaps.forEach(reach => {
+          const cellPixels = reach.cellSize * pixelsPerMeter;
+          ctx.fillStyle = 'hsla(140, 70%, 45%, 0.15)';
+          reach.cells.forEach((reachable, index) => {
+            if (!reachable) return;
+            const column = index % reach.columns;
+            const row = Math.floor(index / reach.columns);
+            // Rows count up from y = 0, which is the bottom of the canvas
+            ctx.fillRect(column * cellPixels, canvasSize.height - (row + 1) * cellPixels, cellPixels, cellPixels);
+          });
+        });
+      }
+
+      // Open footprints (near-horizontal beams) are cut off past the far corner of the room
+      const footprintRange = Math.hypot(floorPlan.width, floorPlan.height);
+
+      // Draw individual beam footprints for ALL fixtures
       fixtures.forEach(fixture => {
-        // Use fixture's individual target point and iris for cone size
-        const baseBeamAngle = fixture.zoom;
-        const irisMultiplier = fixture.iris / 100; // Convert iris percentage to multiplier
+        // The type's zoom range and iris give the beam angle; the footprint is cut on the target's plane
+        const fixtureType = getFixtureType(fixtureTypes, fixture);
+        const baseBeamAngle = zoomToBeamAngle(fixtureType, fixture.zoom);
+        const irisMultiplier = fixtureType.features.iris ? fixture.iris / 100 : 1; // Convert iris percentage to multiplier
         const adjustedBeamAngle = baseBeamAngle * irisMultiplier;
-        const cone = calculateLightCone(fixture, fixture.targetX, fixture.targetY, adjustedBeamAngle);
-        const centerPixel = realToPixel(cone.centerX, cone.centerY, {
+        const targetZ = fixture.targetZ ?? 0;
+        const footprint = calculateBeamFootprint(fixture, adjustedBeamAngle, targetZ, footprintRange);
+        const landing = calculateBeamLanding(fixture, targetZ);
+        const centerPixel = realToPixel(landing?.x ?? fixture.targetX, landing?.y ?? fixture.targetY, {
           width: floorPlan.width,
           height: floorPlan.height,
           pixelsPerMeter
@@ -245,25 +753,31 @@ export const FloorPlan: React.FC = () => {
         const strokeOpacity = isSelected ? 0.8 * dimmerOpacity : 0.6 * dimmerOpacity;
         const lineWidth = isSelected ? 2 : 1;
         
-        // Draw cone using fixture's RGB color with dimmer-based opacity
+        // Draw footprint using fixture's RGB color with dimmer-based opacity
         ctx.fillStyle = `rgba(${r}, ${g}, ${b}, ${opacity})`;
         ctx.strokeStyle = `rgba(${r}, ${g}, ${b}, ${strokeOpacity})`;
         ctx.lineWidth = lineWidth;
         
-        ctx.beginPath();
-        ctx.ellipse(
-          centerPixel.x,
-          centerPixel.y,
-          cone.radiusX * pixelsPerMeter,
-          cone.radiusY * pixelsPerMeter,
-          (cone.rotation * Math.PI) / 180,
-          0,
-          2 * Math.PI
-        );
-        ctx.fill();
-        ctx.stroke();
+        if (footprint.outline.length > 2) {
+          ctx.beginPath();
+          footprint.outline.forEach((point, index) => {
+            const pixel = realToPixel(point.x, point.y, {
+              width: floorPlan.width,
+              height: floorPlan.height,
+              pixelsPerMeter
+            });
+            if (index === 0) ctx.moveTo(pixel.x, pixel.y);
+            else ctx.lineTo(pixel.x, pixel.y);
+          });
+          ctx.closePath();
+          ctx.fill();
+          // Open conics get a dashed edge: the beam carries on past what's drawn
+          if (footprint.kind !== 'ellipse') ctx.setLineDash([6, 4]);
+          ctx.stroke();
+          ctx.setLineDash([]);
+        }
 
-        // Draw beam line from fixture to target (only for selected fixtures)
+        // Draw beam line from fixture to where it lands (only for selected fixtures)
         if (isSelected) {
           const fixturePixel = realToPixel(fixture.x, fixture.y, {
             width: floorPlan.width,
@@ -278,9 +792,348 @@ export const FloorPlan: React.FC = () => {
           ctx.moveTo(fixturePixel.x, fixturePixel.y);
           ctx.lineTo(centerPixel.x, centerPixel.y);
           ctx.stroke();
+
+          // Height of the target when it's above the floor
+          if (targetZ > 0) {
+            ctx.fillStyle = `rgba(${r}, ${g}, ${b}, 0.9)`;
+            ctx.font = '10px sans-serif';
+            ctx.textAlign = 'left';
+            ctx.textBaseline = 'alphabetic';
+            ctx.fillText(`z ${targetZ.toFixed(1)}m`, centerPixel.x + 6, centerPixel.y - 6);
+          }
         }
       });
 
+      // Draw where each beam actually lands for its pan/tilt, and flag drift from the stored target
+      fixtures.forEach(fixture => {
+        const targetZ = fixture.targetZ ?? 0;
+        const landing = calculateBeamLanding(fixture, targetZ);
+        const drift = targetDrift(fixture);
+        const isDrifting = drift > TARGET_DRIFT_TOLERANCE;
+        const { r, g, b } = fixture.color;
+        const targetPixel = realToPixel(fixture.targetX, fixture.targetY, {
+          width: floorPlan.width,
+          height: floorPlan.height,
+          pixelsPerMeter
+        });
+
+        if (landing) {
+          const landingPixel = realToPixel(landing.x, landing.y, {
+            width: floorPlan.width,
+            height: floorPlan.height,
+            pixelsPerMeter
+          });
+
+          if (isDrifting) {
+            ctx.strokeStyle = 'hsl(38, 95%, 55%)';
+            ctx.lineWidth = 1;
+            ctx.setLineDash([4, 3]);
+            ctx.beginPath();
+            ctx.moveTo(targetPixel.x, targetPixel.y);
+            ctx.lineTo(landingPixel.x, landingPixel.y);
+            ctx.stroke();
+            ctx.setLineDash([]);
+          }
+
+          // Small cross at the true landing point
+          ctx.strokeStyle = isDrifting ? 'hsl(38, 95%, 55%)' : `rgba(${r}, ${g}, ${b}, 0.9)`;
+          ctx.lineWidth = 1.5;
+          ctx.beginPath();
+          ctx.moveTo(landingPixel.x - 4, landingPixel.y - 4);
+          ctx.lineTo(landingPixel.x + 4, landingPixel.y + 4);
+          ctx.moveTo(landingPixel.x - 4, landingPixel.y + 4);
+          ctx.lineTo(landingPixel.x + 4, landingPixel.y - 4);
+          ctx.stroke();
+        }
+
+        if (isDrifting) {
+          // Stored target the angles no longer reach
+          ctx.strokeStyle = 'hsl(38, 95%, 55%)';
+          ctx.lineWidth = 1.5;
+          ctx.beginPath();
+          ctx.arc(targetPixel.x, targetPixel.y, 6, 0, 2 * Math.PI);
+          ctx.stroke();
+          ctx.fillStyle = 'hsl(38, 95%, 55%)';
+          ctx.font = 'bold 10px sans-serif';
+          ctx.textAlign = 'left';
+          ctx.textBaseline = 'alphabetic';
+          ctx.fillText(
+            landing ? `${fixture.id}: off by ${drift.toFixed(1)}m` : `${fixture.id}: misses target`,
+            targetPixel.x + 8,
+            targetPixel.y + 14
+          );
+        }
+      });
+
+      // Draw obstacles with their height
+      obstacles.forEach(obstacle => {
+        if (obstacle.points.length < 3) return;
+        const pixels = obstacle.points.map(point => realToPixel(point.x, point.y, {
+          width: floorPlan.width,
+          height: floorPlan.height,
+          pixelsPerMeter
+        }));
+
+        ctx.fillStyle = 'hsla(220, 10%, 50%, 0.45)';
+        ctx.strokeStyle = 'hsl(220, 10%, 70%)';
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        pixels.forEach((pixel, index) => {
+          if (index === 0) ctx.moveTo(pixel.x, pixel.y);
+          else ctx.lineTo(pixel.x, pixel.y);
+        });
+        ctx.closePath();
+        ctx.fill();
+        ctx.stroke();
+
+        const center = {
+          x: pixels.reduce((sum, p) => sum + p.x, 0) / pixels.length,
+          y: pixels.reduce((sum, p) => sum + p.y, 0) / pixels.length
+        };
+        ctx.fillStyle = 'hsl(45, 20%, 95%)';
+        ctx.font = '10px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(`${obstacle.name} (${obstacle.height}m)`, center.x, center.y);
+      });
+
+      // Beams whose path to the target runs through an obstacle
+      fixtures.forEach(fixture => {
+        const occluder = targetOccluder(fixture, obstacles);
+        if (!occluder) return;
+        const fixturePixel = realToPixel(fixture.x, fixture.y, {
+          width: floorPlan.width,
+          height: floorPlan.height,
+          pixelsPerMeter
+        });
+        const targetPixel = realToPixel(fixture.targetX, fixture.targetY, {
+          width: floorPlan.width,
+          height: floorPlan.height,
+          pixelsPerMeter
+        });
+
+        ctx.strokeStyle = 'hsl(0, 75%, 55%)';
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([2, 4]);
+        ctx.beginPath();
+        ctx.moveTo(fixturePixel.x, fixturePixel.y);
+        ctx.lineTo(targetPixel.x, targetPixel.y);
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        ctx.fillStyle = 'hsl(0, 75%, 60%)';
+        ctx.font = 'bold 10px sans-serif';
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillText(`${fixture.id}: blocked by ${occluder.name}`, targetPixel.x + 8, targetPixel.y - 8);
+      });
+
+      // Targets waiting to be assigned
+      multiTargets?.forEach((target, index) => {
+        const pixel = realToPixel(target.x, target.y, {
+          width: floorPlan.width,
+          height: floorPlan.height,
+          pixelsPerMeter
+        });
+        ctx.fillStyle = 'hsla(300, 70%, 55%, 0.85)';
+        ctx.strokeStyle = 'hsl(45, 20%, 95%)';
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        ctx.arc(pixel.x, pixel.y, 9, 0, 2 * Math.PI);
+        ctx.fill();
+        ctx.stroke();
+        ctx.fillStyle = 'hsl(45, 20%, 95%)';
+        ctx.font = 'bold 10px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText((index + 1).toString(), pixel.x, pixel.y);
+        if (target.spotDiameter) {
+          ctx.textAlign = 'left';
+          ctx.font = '10px sans-serif';
+          ctx.fillText(`Ø${target.spotDiameter}m`, pixel.x + 12, pixel.y);
+        }
+      });
+
+      // Fan shape and where each selected fixture will land on it, in selection order
+      if (fanShape) {
+        const toPixel = (point: { x: number; y: number }) => realToPixel(point.x, point.y, {
+          width: floorPlan.width,
+          height: floorPlan.height,
+          pixelsPerMeter
+        });
+        ctx.strokeStyle = 'hsl(190, 85%, 55%)';
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([5, 4]);
+        ctx.beginPath();
+        const circle = fanShape.kind === 'arc' ? arcCircle(fanShape) : null;
+        if (fanShape.kind === 'grid') {
+          const corners = [
+            fanShape.start,
+            { x: fanShape.end.x, y: fanShape.start.y },
+            fanShape.end,
+            { x: fanShape.start.x, y: fanShape.end.y }
+          ].map(toPixel);
+          corners.forEach((pixel, index) => {
+            if (index === 0) ctx.moveTo(pixel.x, pixel.y);
+            else ctx.lineTo(pixel.x, pixel.y);
+          });
+          ctx.closePath();
+        } else if (circle) {
+          // Trace the arc in short segments so it follows the plan's flipped y axis
+          for (let step = 0; step <= 48; step++) {
+            const angle = circle.startAngle + (circle.sweep * step) / 48;
+            const pixel = toPixel({
+              x: circle.center.x + circle.radius * Math.cos(angle),
+              y: circle.center.y + circle.radius * Math.sin(angle)
+            });
+            if (step === 0) ctx.moveTo(pixel.x, pixel.y);
+            else ctx.lineTo(pixel.x, pixel.y);
+          }
+        } else {
+          const start = toPixel(fanShape.start);
+          const end = toPixel(fanShape.end);
+          ctx.moveTo(start.x, start.y);
+          ctx.lineTo(end.x, end.y);
+        }
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        fanTargets(fanShape, selectedFixtures.length).forEach((target, index) => {
+          const pixel = toPixel(target);
+          ctx.fillStyle = 'hsla(190, 85%, 45%, 0.85)';
+          ctx.strokeStyle = 'hsl(45, 20%, 95%)';
+          ctx.lineWidth = 1.5;
+          ctx.beginPath();
+          ctx.arc(pixel.x, pixel.y, 9, 0, 2 * Math.PI);
+          ctx.fill();
+          ctx.stroke();
+          ctx.fillStyle = 'hsl(45, 20%, 95%)';
+          ctx.font = 'bold 10px sans-serif';
+          ctx.textAlign = 'center';
+          ctx.textBaseline = 'middle';
+          ctx.fillText(selectedFixtures[index].toString(), pixel.x, pixel.y);
+        });
+      }
+
+      // Formation: its centroid, handles and, while dragging, where each target will go
+      if (formationMode && formationBase.length > 0) {
+        const toPixel = (point: { x: number; y: number }) => realToPixel(point.x, point.y, {
+          width: floorPlan.width,
+          height: floorPlan.height,
+          pixelsPerMeter
+        });
+        const moved = transformFormation(formationBase, formationTransform);
+        const center = formationCentroid(moved);
+        const centerPixel = toPixel(center);
+
+        ctx.strokeStyle = 'hsla(45, 95%, 60%, 0.6)';
+        ctx.lineWidth = 1;
+        ctx.setLineDash([3, 3]);
+        moved.forEach(point => {
+          const pixel = toPixel(point);
+          ctx.beginPath();
+          ctx.moveTo(centerPixel.x, centerPixel.y);
+          ctx.lineTo(pixel.x, pixel.y);
+          ctx.stroke();
+        });
+        ctx.setLineDash([]);
+
+        if (formationDrag) {
+          moved.forEach(point => {
+            const pixel = toPixel(point);
+            ctx.fillStyle = 'hsla(45, 95%, 50%, 0.85)';
+            ctx.beginPath();
+            ctx.arc(pixel.x, pixel.y, 8, 0, 2 * Math.PI);
+            ctx.fill();
+            ctx.fillStyle = 'hsl(220, 20%, 10%)';
+            ctx.font = 'bold 10px sans-serif';
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.fillText(point.fixtureId.toString(), pixel.x, pixel.y);
+          });
+        }
+
+        ctx.fillStyle = 'hsl(45, 95%, 60%)';
+        ctx.beginPath();
+        ctx.arc(centerPixel.x, centerPixel.y, 5, 0, 2 * Math.PI);
+        ctx.fill();
+
+        if (formationBase.length > 1) {
+          const handles = formationHandles(center, formationTransform, pixelsPerMeter);
+          const scalePixel = toPixel(handles.scale);
+          const rotatePixel = toPixel(handles.rotate);
+          ctx.strokeStyle = 'hsl(45, 95%, 60%)';
+          ctx.lineWidth = 1.5;
+          ctx.beginPath();
+          ctx.moveTo(scalePixel.x, scalePixel.y);
+          ctx.lineTo(centerPixel.x, centerPixel.y);
+          ctx.lineTo(rotatePixel.x, rotatePixel.y);
+          ctx.stroke();
+          ctx.fillStyle = 'hsl(220, 20%, 10%)';
+          ctx.fillRect(scalePixel.x - 5, scalePixel.y - 5, 10, 10);
+          ctx.strokeRect(scalePixel.x - 5, scalePixel.y - 5, 10, 10);
+          ctx.beginPath();
+          ctx.arc(rotatePixel.x, rotatePixel.y, 6, 0, 2 * Math.PI);
+          ctx.fill();
+          ctx.stroke();
+        }
+      }
+
+      // Outline being drawn
+      if (draft && draft.points.length > 0) {
+        const pixels = draft.points.map(point => realToPixel(point.x, point.y, {
+          width: floorPlan.width,
+          height: floorPlan.height,
+          pixelsPerMeter
+        }));
+        ctx.strokeStyle = 'hsl(45, 95%, 60%)';
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([4, 3]);
+        ctx.beginPath();
+        pixels.forEach((pixel, index) => {
+          if (index === 0) ctx.moveTo(pixel.x, pixel.y);
+          else ctx.lineTo(pixel.x, pixel.y);
+        });
+        if (pixels.length > 2) ctx.closePath();
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.fillStyle = 'hsl(45, 95%, 60%)';
+        pixels.forEach(pixel => {
+          ctx.beginPath();
+          ctx.arc(pixel.x, pixel.y, 3, 0, 2 * Math.PI);
+          ctx.fill();
+        });
+      }
+
+      // Draw positions (trusses, pipes, booms)
+      positions.forEach(position => {
+        const start = realToPixel(position.start.x, position.start.y, {
+          width: floorPlan.width,
+          height: floorPlan.height,
+          pixelsPerMeter
+        });
+        const end = realToPixel(position.end.x, position.end.y, {
+          width: floorPlan.width,
+          height: floorPlan.height,
+          pixelsPerMeter
+        });
+
+        ctx.strokeStyle = 'hsl(220, 10%, 55%)';
+        ctx.lineWidth = 6;
+        ctx.lineCap = 'round';
+        ctx.beginPath();
+        ctx.moveTo(start.x, start.y);
+        ctx.lineTo(end.x, end.y);
+        ctx.stroke();
+        ctx.lineCap = 'butt';
+
+        ctx.fillStyle = 'hsl(220, 10%, 70%)';
+        ctx.font = '10px sans-serif';
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillText(`${position.name} (${position.height}m)`, start.x, start.y - 26);
+      });
+
       // Draw fixtures
       fixtures.forEach(fixture => {
         const pixel = realToPixel(fixture.x, fixture.y, {
@@ -304,6 +1157,22 @@ export const FloorPlan: React.FC = () => {
         ctx.fill();
         ctx.stroke();
 
+        // Last aim was out of reach and the angles were clamped
+        if (fixture.isClamped) {
+          ctx.strokeStyle = 'hsl(0, 75%, 55%)';
+          ctx.lineWidth = 3;
+          ctx.setLineDash([5, 3]);
+          ctx.beginPath();
+          ctx.arc(pixel.x, pixel.y, radius + 8, 0, 2 * Math.PI);
+          ctx.stroke();
+          ctx.setLineDash([]);
+          ctx.fillStyle = 'hsl(0, 75%, 60%)';
+          ctx.font = 'bold 10px sans-serif';
+          ctx.textAlign = 'center';
+          ctx.textBaseline = 'alphabetic';
+          ctx.fillText('clamped', pixel.x, pixel.y + radius + 20);
+        }
+
         // Fixture number
         ctx.fillStyle = isSelected ? 'hsl(220, 15%, 8%)' : 'hsl(45, 20%, 95%)';
         ctx.font = 'bold 14px sans-serif';
@@ -350,9 +1219,16 @@ export const FloorPlan: React.FC = () => {
         ctx.moveTo(pixel.x, pixel.y - 15);
         ctx.lineTo(pixel.x, pixel.y + 15);
         ctx.stroke();
+
+        // Target height label
+        ctx.fillStyle = 'hsl(45, 20%, 95%)';
+        ctx.font = 'bold 11px sans-serif';
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillText(targetPoint.z > 0 ? `z ${targetPoint.z.toFixed(1)}m` : 'floor', pixel.x + 12, pixel.y - 12);
       }
     }
-  }, [fixtures, floorPlan, selectedFixtures, targetPoint, canvasSize, imageLoaded]);
+  }, [fixtures, fixtureTypes, positions, obstacles, heightZones, draft, multiTargets, fanShape, formationMode, formationBase, formationTransform, formationDrag, floorPlan, selectedFixtures, targetPoint, targetHeight, showReach, reachMaps, luxMap, zonePeaks, canvasSize, imageLoaded]);
 
   return (
     <div className="relative flex bg-card rounded-lg border border-border items-center justify-center w-full h-full" style={{ 
@@ -364,6 +1240,14 @@ export const FloorPlan: React.FC = () => {
         height={canvasSize.height}
         className="cursor-crosshair"
         onClick={handleCanvasClick}
+        onMouseDown={handleCanvasMouseDown}
+        onMouseMove={handleCanvasMouseMove}
+        onMouseUp={handleCanvasMouseUp}
+        onMouseLeave={() => {
+          setHoverLux(null);
+          fanDragging.current = false;
+          setFormationDrag(null);
+        }}
         style={{ 
           imageRendering: 'crisp-edges',
           maxWidth: '100%',
@@ -374,17 +1258,269 @@ export const FloorPlan: React.FC = () => {
         }}
       />
       
+      {/* Group recall overlay */}
+      {groups.length > 0 && (
+        <div className="absolute top-4 left-4 flex flex-wrap gap-1 max-w-[50%]">
+          {groups.map(group => (
+            <button
+              key={group.id}
+              type="button"
+              onClick={(e) => recallGroup(group.id, e.shiftKey)}
+              className="text-xs px-2 py-1 rounded bg-background/90 backdrop-blur-sm border border-border/50 hover:border-primary/50 hover:text-primary"
+              title={`Fixtures ${group.fixtureIds.join(', ')} (Shift adds to selection)`}
+            >
+              {group.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Height that clicks aim at, and where the selected fixtures can reach at that height */}
+      <div className="absolute top-4 right-4 flex flex-col items-end gap-1">
+        <TargetHeightControl />
+        <button
+          type="button"
+          onClick={() => setShowReach(!showReach)}
+          className={`flex items-center gap-1 text-xs px-2 py-1 rounded-lg border bg-background/90 backdrop-blur-sm ${showReach
+            ? 'border-primary text-primary'
+            : 'border-border/50 hover:border-primary/50 hover:text-primary'}`}
+          title="Shade the area the selected fixtures can reach within their pan/tilt limits"
+        >
+          <Radar className="w-3 h-3" />
+          Reach
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setShowLux(!showLux);
+            setHoverLux(null);
+          }}
+          className={`flex items-center gap-1 text-xs px-2 py-1 rounded-lg border bg-background/90 backdrop-blur-sm ${showLux
+            ? 'border-primary text-primary'
+            : 'border-border/50 hover:border-primary/50 hover:text-primary'}`}
+          title="Show the illuminance the rig puts on the floor and raised surfaces"
+        >
+          <Sun className="w-3 h-3" />
+          Lux
+        </button>
+        <button
+          type="button"
+          onClick={() => startDraft('obstacle')}
+          className={`flex items-center gap-1 text-xs px-2 py-1 rounded-lg border bg-background/90 backdrop-blur-sm ${draft?.kind === 'obstacle'
+            ? 'border-primary text-primary'
+            : 'border-border/50 hover:border-primary/50 hover:text-primary'}`}
+          title="Draw a column, wall or case by clicking its corners"
+        >
+          <Box className="w-3 h-3" />
+          Obstacle
+        </button>
+        <button
+          type="button"
+          onClick={() => startDraft('zone')}
+          className={`flex items-center gap-1 text-xs px-2 py-1 rounded-lg border bg-background/90 backdrop-blur-sm ${draft?.kind === 'zone'
+            ? 'border-primary text-primary'
+            : 'border-border/50 hover:border-primary/50 hover:text-primary'}`}
+          title="Draw a stage, plinth or platform; clicks inside aim at its surface"
+        >
+          <Layers className="w-3 h-3" />
+          Raised area
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setDraft(null);
+            setFan(null);
+            setFormationMode(false);
+            setMultiTargets(multiTargets ? null : []);
+          }}
+          className={`flex items-center gap-1 text-xs px-2 py-1 rounded-lg border bg-background/90 backdrop-blur-sm ${multiTargets
+            ? 'border-primary text-primary'
+            : 'border-border/50 hover:border-primary/50 hover:text-primary'}`}
+          title="Click several targets, then let the app pick which selected fixture lights which"
+        >
+          <Crosshair className="w-3 h-3" />
+          Targets
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setDraft(null);
+            setMultiTargets(null);
+            setFormationMode(false);
+            setFan(fan ? null : { kind: 'line', start: null, end: null });
+          }}
+          className={`flex items-center gap-1 text-xs px-2 py-1 rounded-lg border bg-background/90 backdrop-blur-sm ${fan
+            ? 'border-primary text-primary'
+            : 'border-border/50 hover:border-primary/50 hover:text-primary'}`}
+          title="Drag a line, arc or grid and spread the selected fixtures over it in the order they were selected"
+        >
+          <Spline className="w-3 h-3" />
+          Fan
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setDraft(null);
+            setMultiTargets(null);
+            setFan(null);
+            setFormationDrag(null);
+            setFormationMode(!formationMode);
+          }}
+          className={`flex items-center gap-1 text-xs px-2 py-1 rounded-lg border bg-background/90 backdrop-blur-sm ${formationMode
+            ? 'border-primary text-primary'
+            : 'border-border/50 hover:border-primary/50 hover:text-primary'}`}
+          title="Move the selected fixtures' targets as one pattern instead of collapsing them onto a point"
+        >
+          <Move className="w-3 h-3" />
+          Formation
+        </button>
+        {formationMode && (
+          <div className="flex items-center gap-2 bg-background/90 backdrop-blur-sm px-2 py-1.5 rounded-lg border border-border/50 text-xs">
+            <span className="text-muted-foreground whitespace-nowrap">
+              {formationBase.length === 0
+                ? 'Select fixtures to move'
+                : formationBase.length === 1
+                  ? 'Click or drag to move'
+                  : 'Click or drag to move, ◻ scales, ○ turns'}
+            </span>
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setFormationMode(false)}>
+              Done
+            </Button>
+          </div>
+        )}
+        {fan && (
+          <div className="flex items-center gap-1 bg-background/90 backdrop-blur-sm px-2 py-1.5 rounded-lg border border-border/50 text-xs">
+            {(['line', 'arc', 'grid'] as FanShapeKind[]).map(kind => (
+              <Button
+                key={kind}
+                variant={fan.kind === kind ? 'default' : 'ghost'}
+                size="sm"
+                className="h-6 px-2 text-xs capitalize"
+                onClick={() => setFan({ ...fan, kind })}
+              >
+                {kind}
+              </Button>
+            ))}
+            {fan.kind === 'arc' && (
+              <>
+                <Input
+                  type="number"
+                  value={fanBend}
+                  onChange={(e) => setFanBend(e.target.value)}
+                  step="15"
+                  min="-359"
+                  max="359"
+                  className="h-6 w-14 text-xs"
+                  title="Arc sweep (°); negative bends the other way"
+                />
+                <span className="text-muted-foreground">°</span>
+              </>
+            )}
+            {!fanShape && <span className="text-muted-foreground whitespace-nowrap">Drag on the plan</span>}
+            <Button
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={applyFan}
+              disabled={!fanShape || selectedFixtures.length === 0}
+            >
+              Apply
+            </Button>
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setFan(null)}>
+              Cancel
+            </Button>
+          </div>
+        )}
+        {multiTargets && (
+          <div className="flex items-center gap-2 bg-background/90 backdrop-blur-sm px-2 py-1.5 rounded-lg border border-border/50 text-xs">
+            <span className="text-muted-foreground whitespace-nowrap">
+              {multiTargets.length} target{multiTargets.length === 1 ? '' : 's'}, {selectedFixtures.length} fixture{selectedFixtures.length === 1 ? '' : 's'}
+            </span>
+            <label className="flex items-center gap-1 whitespace-nowrap" title="Only move anything if every target gets a fixture">
+              <Switch checked={fullCoverage} onCheckedChange={setFullCoverage} />
+              Cover all
+            </label>
+            <Input
+              type="number"
+              value={targetSpot}
+              onChange={(e) => setTargetSpot(e.target.value)}
+              step="0.1"
+              min="0"
+              placeholder="Ø"
+              className="h-6 w-14 text-xs"
+              title="Spot diameter (m) for the next targets you click; zoom and focus follow the throw"
+            />
+            <Button
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={assignTargets}
+              disabled={multiTargets.length === 0 || selectedFixtures.length === 0}
+            >
+              Assign
+            </Button>
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setMultiTargets(null)}>
+              Cancel
+            </Button>
+          </div>
+        )}
+        {draft && (
+          <div className="flex items-center gap-1 bg-background/90 backdrop-blur-sm px-2 py-1.5 rounded-lg border border-border/50 text-xs">
+            <span className="text-muted-foreground whitespace-nowrap">
+              {draft.points.length < 3 ? `Click corners (${draft.points.length}/3)` : `${draft.points.length} corners`}
+            </span>
+            <Input
+              type="number"
+              value={draftHeight}
+              onChange={(e) => setDraftHeight(e.target.value)}
+              step="0.1"
+              min="0"
+              className="h-6 w-14 text-xs"
+              title={draft.kind === 'obstacle' ? 'Obstacle height (m)' : 'Surface height (m)'}
+            />
+            <span className="text-muted-foreground">m</span>
+            <Button size="sm" className="h-6 px-2 text-xs" onClick={finishDraft} disabled={draft.points.length < 3}>
+              Done
+            </Button>
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+          </div>
+        )}
+      </div>
+
       {/* Grid coordinates overlay */}
       <div className="absolute bottom-4 left-4 text-base text-muted-foreground bg-background/90 backdrop-blur-sm px-5 py-3 rounded-lg shadow-lg border border-border/50 min-w-fit whitespace-nowrap">
         <div className="font-semibold text-foreground mb-1.5">{floorPlan.width}m × {floorPlan.height}m</div>
         {targetPoint && (
-          <div className="text-sm leading-relaxed">Target: {targetPoint.x.toFixed(1)}m, {targetPoint.y.toFixed(1)}m</div>
+          <div className="text-sm leading-relaxed">
+            Target: {targetPoint.x.toFixed(1)}m, {targetPoint.y.toFixed(1)}m, z {(targetPoint.z ?? 0).toFixed(1)}m
+          </div>
         )}
         {selectedFixtures.length > 0 && (
           <div className="text-sm text-primary leading-relaxed mt-0.5">
             Selected: {selectedFixtures.join(', ')}
           </div>
         )}
+        {showLux && (
+          <div className="mt-1.5 space-y-1">
+            <div className="text-sm leading-relaxed">
+              {hoverLux
+                ? `${Math.round(hoverLux.lux)} lx at ${hoverLux.x.toFixed(1)}m, ${hoverLux.y.toFixed(1)}m`
+                : 'Hover the plan for lux'}
+            </div>
+            <div className="flex items-center gap-1 text-xs">
+              {LUX_SCALE.map(stop => (
+                <span key={stop.lux} className="flex items-center gap-0.5">
+                  <span
+                    className="inline-block w-3 h-3 rounded-sm"
+                    style={{ backgroundColor: `rgb(${stop.color.join(', ')})` }}
+                  />
+                  {stop.lux}
+                </span>
+              ))}
+              <span>lx</span>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
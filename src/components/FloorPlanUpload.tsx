@@ -4,6 +4,7 @@ import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Card, CardContent } from './ui/card';
 import { useLightingStore } from '../stores/lightingStore';
+import { PlanRegistrationDialog } from './PlanRegistrationDialog';
 import { Upload, Image as ImageIcon, X } from 'lucide-react';
 import { useToast } from '../hooks/use-toast';
 
@@ -101,6 +102,9 @@ export const FloorPlanUpload: React.FC = () => {
                   className="w-full h-16 object-cover rounded border"
                 />
               </div>
+              <div className="mt-2">
+                <PlanRegistrationDialog />
+              </div>
             </CardContent>
           </Card>
         ) : (
@@ -164,7 +168,7 @@ export const FloorPlanUpload: React.FC = () => {
       </div>
 
       <div className="text-xs text-muted-foreground">
-        Set the real-world dimensions of your space. The image will be scaled accordingly.
+        Set the real-world dimensions of your space. The image is stretched over it unless it has been registered.
       </div>
     </div>
   );
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Badge } from './ui/badge';
+import { useLightingStore } from '../stores/lightingStore';
+import { Users, Plus, Trash2, RefreshCw } from 'lucide-react';
+
+export const GroupPanel: React.FC = () => {
+  const {
+    groups,
+    selectedFixtures,
+    createGroup,
+    updateGroup,
+    deleteGroup,
+    recallGroup
+  } = useLightingStore();
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [newGroupName, setNewGroupName] = useState('');
+
+  const hasSelection = selectedFixtures.length > 0;
+
+  const handleCreateGroup = () => {
+    if (newGroupName.trim()) {
+      createGroup(newGroupName.trim(), selectedFixtures);
+      setNewGroupName('');
+      setIsCreateDialogOpen(false);
+    }
+  };
+
+  const handleDeleteGroup = (groupId: string, name: string) => {
+    if (confirm(`Delete group "${name}"?`)) {
+      deleteGroup(groupId);
+    }
+  };
+
+  return (
+    <Card className="control-panel h-full flex flex-col">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-primary">
+            <Users className="w-5 h-5" />
+            Groups
+          </CardTitle>
+
+          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button size="sm" className="gap-1" disabled={!hasSelection}>
+                <Plus className="w-4 h-4" />
+                Save Selection
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Save Group</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="group-name">Group Name</Label>
+                  <Input
+                    id="group-name"
+                    value={newGroupName}
+                    onChange={(e) => setNewGroupName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleCreateGroup()}
+                    placeholder="e.g., Wall A"
+                    maxLength={30}
+                  />
+                </div>
+
+                <div className="text-sm text-muted-foreground">
+                  Order: {selectedFixtures.join(' → ')}
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => setIsCreateDialogOpen(false)}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={handleCreateGroup}
+                    disabled={!newGroupName.trim()}
+                  >
+                    Save Group
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        <div className="text-sm text-muted-foreground">
+          {groups.length === 0
+            ? 'Select fixtures in order, then save them as a group'
+            : 'Alt+1–9 recalls a group, Shift adds it to the selection'}
+        </div>
+      </CardHeader>
+
+      {groups.length > 0 && (
+        <CardContent className="space-y-2 flex-1 overflow-y-auto custom-scrollbar p-4 pt-0">
+          {groups.map((group, index) => (
+            <div key={group.id} className="flex items-center gap-2 p-2 rounded border border-border/50 bg-card">
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 flex-1 justify-start gap-2 min-w-0"
+                onClick={(e) => recallGroup(group.id, e.shiftKey)}
+                title="Recall group (Shift adds to selection)"
+              >
+                {index < 9 && (
+                  <Badge variant="secondary" className="text-xs px-1">
+                    {index + 1}
+                  </Badge>
+                )}
+                <span className="truncate">{group.name}</span>
+                <span className="text-xs text-muted-foreground truncate">
+                  {group.fixtureIds.join(', ')}
+                </span>
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 px-2"
+                onClick={() => updateGroup(group.id, { fixtureIds: [...selectedFixtures] })}
+                disabled={!hasSelection}
+                title="Replace members with the current selection"
+              >
+                <RefreshCw className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 px-2"
+                onClick={() => handleDeleteGroup(group.id, group.name)}
+                title="Delete group"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
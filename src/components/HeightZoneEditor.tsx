@@ -0,0 +1,94 @@
+import React, { useMemo } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { useLightingStore } from '../stores/lightingStore';
+import { HeightZone } from '../types/lighting';
+import { getFixtureType } from '../utils/fixtureTypes';
+import { rigBeams, zonePeakIlluminance } from '../utils/photometrics';
+import { Trash2 } from 'lucide-react';
+
+export const HeightZoneEditor: React.FC = () => {
+  const { fixtures, fixtureTypes, obstacles, heightZones, updateHeightZone, deleteHeightZone } = useLightingStore();
+
+  // Peak lux on each zone that has a conservation limit, by zone id
+  const zonePeaks = useMemo(() => {
+    const beams = rigBeams(fixtures, f => getFixtureType(fixtureTypes, f));
+    return new Map(heightZones
+      .filter(zone => zone.luxLimit)
+      .map(zone => [zone.id, zonePeakIlluminance(beams, obstacles, zone)]));
+  }, [fixtures, fixtureTypes, obstacles, heightZones]);
+
+  const handleDeleteZone = (zone: HeightZone) => {
+    if (confirm(`Delete "${zone.name}"? Fixtures aimed on it keep their targets.`)) {
+      deleteHeightZone(zone.id);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Raised Areas</Label>
+
+      <div className="space-y-1">
+        {heightZones.map(zone => {
+          const peakLux = zonePeaks.get(zone.id) ?? 0;
+          return (
+            <div key={zone.id} className="space-y-1">
+              <div className="flex items-center gap-2 text-xs">
+                <Input
+                  value={zone.name}
+                  onChange={(e) => updateHeightZone(zone.id, { name: e.target.value })}
+                  className="h-6 text-xs flex-1 min-w-0"
+                />
+                <Input
+                  type="number"
+                  value={zone.height}
+                  onChange={(e) => updateHeightZone(zone.id, { height: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  step="0.1"
+                  min="0"
+                  className="h-6 text-xs w-16"
+                  title="Surface height (m)"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => handleDeleteZone(zone)}
+                  title={`Delete ${zone.name}`}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+              <div className="flex items-center gap-2 text-xs pl-1">
+                <span className="text-muted-foreground whitespace-nowrap">Lux limit</span>
+                <Input
+                  type="number"
+                  value={zone.luxLimit ?? ''}
+                  onChange={(e) => {
+                    const limit = parseFloat(e.target.value);
+                    updateHeightZone(zone.id, { luxLimit: limit > 0 ? limit : undefined });
+                  }}
+                  step="10"
+                  min="0"
+                  className="h-6 text-xs w-20"
+                  placeholder="None"
+                  title="Conservation limit for objects displayed here (lx)"
+                />
+                {zone.luxLimit && (
+                  <span className={peakLux > zone.luxLimit ? 'text-destructive font-medium' : 'text-muted-foreground'}>
+                    {peakLux > zone.luxLimit ? '⚠️ ' : ''}peak {Math.round(peakLux)} lx
+                  </span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+        {heightZones.length === 0 && (
+          <p className="text-xs text-muted-foreground text-center py-2">
+            Flat floor - draw stages, plinths and lux-limited areas with the Raised area tool on the floor plan
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
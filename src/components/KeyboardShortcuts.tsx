@@ -1,9 +1,14 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { useLightingStore } from '../stores/lightingStore';
 
+// How long to wait for another digit before a typed fixture ID is selected
+const ID_ENTRY_TIMEOUT = 600;
+
 export const KeyboardShortcuts: React.FC = () => {
   const { 
     selectFixture,
+    recallGroup,
+    groups,
     selectAllFixtures, 
     clearSelection,
     updateDimmer,
@@ -11,7 +16,23 @@ export const KeyboardShortcuts: React.FC = () => {
     fixtures
   } = useLightingStore();
 
+  // Digits typed so far, e.g. "1" then "2" selects fixture 12
+  const idBuffer = useRef<{ digits: string; multi: boolean; timer: NodeJS.Timeout | null }>({
+    digits: '',
+    multi: false,
+    timer: null
+  });
+
   useEffect(() => {
+    const flushIdBuffer = () => {
+      const { digits, multi } = idBuffer.current;
+      idBuffer.current = { digits: '', multi: false, timer: null };
+      const fixtureId = parseInt(digits);
+      if (fixtures.some(f => f.id === fixtureId)) {
+        selectFixture(fixtureId, multi);
+      }
+    };
+
     const handleKeyPress = (event: KeyboardEvent) => {
       // Ignore if user is typing in an input field
       if (event.target instanceof HTMLInputElement || 
@@ -22,15 +43,31 @@ export const KeyboardShortcuts: React.FC = () => {
 
       const key = event.key.toLowerCase();
       
-      // Number keys 1-6 for fixture selection
-      if (['1', '2', '3', '4', '5', '6'].includes(key)) {
-        const fixtureId = parseInt(key);
-        if (event.shiftKey || event.ctrlKey) {
-          // Multi-selection mode
-          selectFixture(fixtureId, true);
+      // Number keys, on the top row or the keypad, type a fixture ID; Shift adds it to the selection
+      // (event.code is used so Shift+digit still reads as a digit)
+      const digit = /^(Digit|Numpad)(\d)$/.exec(event.code)?.[2] ?? null;
+      if (digit !== null && !event.ctrlKey && !event.metaKey && !event.altKey) {
+        const buffer = idBuffer.current;
+        if (buffer.timer) clearTimeout(buffer.timer);
+        buffer.digits += digit;
+        buffer.multi = buffer.multi || event.shiftKey;
+
+        // Select straight away once no longer ID could start with these digits
+        const canGrow = fixtures.some(f => f.id.toString().startsWith(buffer.digits) && f.id.toString() !== buffer.digits);
+        if (canGrow) {
+          buffer.timer = setTimeout(flushIdBuffer, ID_ENTRY_TIMEOUT);
         } else {
-          // Single selection
-          selectFixture(fixtureId, false);
+          flushIdBuffer();
+        }
+        event.preventDefault();
+        return;
+      }
+
+      // Alt + 1-9 recalls a group in list order; Shift adds it to the selection
+      if (digit !== null && event.altKey && !event.ctrlKey && !event.metaKey) {
+        const group = groups[parseInt(digit) - 1];
+        if (group) {
+          recallGroup(group.id, event.shiftKey);
         }
         event.preventDefault();
         return;
@@ -75,7 +112,7 @@ export const KeyboardShortcuts: React.FC = () => {
 
     document.addEventListener('keydown', handleKeyPress);
     return () => document.removeEventListener('keydown', handleKeyPress);
-  }, [selectedFixtures, selectFixture, selectAllFixtures, clearSelection, updateDimmer]);
+  }, [fixtures, groups, selectedFixtures, selectFixture, recallGroup, selectAllFixtures, clearSelection, updateDimmer]);
 
   return null; // This component only handles keyboard events
 };
\ No newline at end of file
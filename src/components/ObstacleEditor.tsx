@@ -0,0 +1,72 @@
+import React from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { useLightingStore } from '../stores/lightingStore';
+import { Obstacle } from '../types/lighting';
+import { targetOccluder } from '../utils/obstacles';
+import { Trash2 } from 'lucide-react';
+
+export const ObstacleEditor: React.FC = () => {
+  const { fixtures, obstacles, updateObstacle, deleteObstacle } = useLightingStore();
+
+  const handleDeleteObstacle = (obstacle: Obstacle) => {
+    if (confirm(`Delete "${obstacle.name}"?`)) {
+      deleteObstacle(obstacle.id);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Obstacles</Label>
+
+      <div className="space-y-1">
+        {obstacles.map(obstacle => {
+          const blocked = fixtures.filter(f => targetOccluder(f, [obstacle]));
+          return (
+            <div key={obstacle.id} className="flex items-center gap-2 text-xs">
+              <Input
+                value={obstacle.name}
+                onChange={(e) => updateObstacle(obstacle.id, { name: e.target.value })}
+                className="h-6 text-xs flex-1 min-w-0"
+              />
+              <Input
+                type="number"
+                value={obstacle.height}
+                onChange={(e) => updateObstacle(obstacle.id, { height: Math.max(0, parseFloat(e.target.value) || 0) })}
+                step="0.1"
+                min="0"
+                className="h-6 text-xs w-16"
+                title="Height (m)"
+              />
+              {blocked.length > 0 && (
+                <Badge
+                  variant="outline"
+                  className="text-xs px-1 border-destructive/50 text-destructive"
+                  title={`Blocks fixtures ${blocked.map(f => f.id).join(', ')}`}
+                >
+                  {blocked.length}
+                </Badge>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => handleDeleteObstacle(obstacle)}
+                title={`Delete ${obstacle.name}`}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          );
+        })}
+        {obstacles.length === 0 && (
+          <p className="text-xs text-muted-foreground text-center py-2">
+            No obstacles - draw columns, walls and cases with the Obstacle tool on the floor plan
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
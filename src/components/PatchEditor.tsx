@@ -0,0 +1,372 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { PatchImportDialog } from './PatchImportDialog';
+import { CalibrationWizard } from './CalibrationWizard';
+import { useLightingStore } from '../stores/lightingStore';
+import { DEFAULT_FIXTURE_TYPE_ID } from '../utils/fixtureTypes';
+import { HUNG, MOUNTING_PRESETS } from '../utils/geometry';
+import { Fixture, MountingOrientation } from '../types/lighting';
+import { Plus, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+import { useToast } from '../hooks/use-toast';
+
+export const PatchEditor: React.FC = () => {
+  const { toast } = useToast();
+  const {
+    fixtures,
+    fixtureTypes,
+    floorPlan,
+    addFixture,
+    removeFixtures,
+    renumberFixture,
+    updateFixtureSetup,
+    positions,
+    hangFixture
+  } = useLightingStore();
+
+  const nextFreeId = fixtures.reduce((max, f) => Math.max(max, f.id), 0) + 1;
+
+  const [newId, setNewId] = useState('');
+  const [newX, setNewX] = useState('');
+  const [newY, setNewY] = useState('');
+  const [newZ, setNewZ] = useState('');
+  const [newTypeId, setNewTypeId] = useState(DEFAULT_FIXTURE_TYPE_ID);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  // Pending ID edits, committed on blur/enter so typing "12" doesn't renumber to 1 first
+  const [idDrafts, setIdDrafts] = useState<Record<number, string>>({});
+
+  const handleAddFixture = () => {
+    const id = parseInt(newId) || nextFreeId;
+    if (id < 1) {
+      toast({
+        title: "Invalid fixture ID",
+        description: "Fixture IDs must be positive numbers",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (fixtures.some(f => f.id === id)) {
+      toast({
+        title: "Fixture ID in use",
+        description: `Fixture ${id} is already patched`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Empty fields get a default; a typed 0 is a real position
+    const orDefault = (value: string, fallback: number) => {
+      const parsed = parseFloat(value);
+      return Number.isFinite(parsed) ? parsed : fallback;
+    };
+    addFixture({
+      id,
+      typeId: newTypeId,
+      x: orDefault(newX, floorPlan.width / 2),
+      y: orDefault(newY, floorPlan.height / 2),
+      z: orDefault(newZ, fixtures[0]?.z ?? 3)
+    });
+    setNewId('');
+    setExpandedId(id);
+  };
+
+  const commitRenumber = (fixture: Fixture) => {
+    const draft = idDrafts[fixture.id];
+    setIdDrafts(drafts => {
+      const { [fixture.id]: _, ...rest } = drafts;
+      return rest;
+    });
+    if (draft === undefined) return;
+
+    const newFixtureId = parseInt(draft);
+    if (!newFixtureId || newFixtureId < 1 || newFixtureId === fixture.id) return;
+    if (fixtures.some(f => f.id === newFixtureId)) {
+      toast({
+        title: "Fixture ID in use",
+        description: `Fixture ${newFixtureId} is already patched`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    renumberFixture(fixture.id, newFixtureId);
+    if (expandedId === fixture.id) setExpandedId(newFixtureId);
+  };
+
+  const handleRemoveFixture = (fixtureId: number) => {
+    if (confirm(`Remove fixture ${fixtureId} from the patch?`)) {
+      removeFixtures([fixtureId]);
+    }
+  };
+
+  const typeSelect = (value: string, onChange: (typeId: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-6 text-xs">
+        <SelectValue placeholder="Fixture type" />
+      </SelectTrigger>
+      <SelectContent>
+        {fixtureTypes.map(t => (
+          <SelectItem key={t.id} value={t.id} className="text-xs">
+            {t.manufacturer} {t.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const mountingPresetId = (mounting: MountingOrientation = HUNG) =>
+    MOUNTING_PRESETS.find(p =>
+      p.mounting.yaw === mounting.yaw &&
+      p.mounting.pitch === mounting.pitch &&
+      p.mounting.roll === mounting.roll
+    )?.id ?? 'custom';
+
+  const numberInput = (
+    value: number,
+    onChange: (value: number) => void,
+    placeholder: string,
+    step = "0.1",
+    disabled = false
+  ) => (
+    <Input
+      type="number"
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+      step={step}
+      disabled={disabled}
+      className="h-6 text-xs flex-1 min-w-0"
+      placeholder={placeholder}
+      title={placeholder}
+    />
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Patch</Label>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">
+            {fixtures.length} fixture{fixtures.length !== 1 ? 's' : ''}
+          </span>
+          <PatchImportDialog />
+        </div>
+      </div>
+
+      {/* Column headings */}
+      <div className="flex items-center space-x-2 text-xs text-muted-foreground px-5">
+        <span className="w-12">ID</span>
+        <span className="flex-1">X (m)</span>
+        <span className="flex-1">Y (m)</span>
+        <span className="flex-1">Z (m)</span>
+        <span className="w-6" />
+      </div>
+
+      {/* Patched fixtures */}
+      <div className="space-y-1 max-h-64 overflow-y-auto custom-scrollbar">
+        {fixtures.map(fixture => {
+          const isExpanded = expandedId === fixture.id;
+          // Fixtures on a position take their X/Y/Z from it
+          const position = positions.find(p => p.id === fixture.positionId);
+          const isHung = !!position;
+          return (
+            <div key={fixture.id} className="space-y-1">
+              <div className="flex items-center space-x-2 text-xs">
+                <button
+                  type="button"
+                  className="w-3 text-muted-foreground"
+                  onClick={() => setExpandedId(isExpanded ? null : fixture.id)}
+                  title="Calibration"
+                >
+                  {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                </button>
+                <Input
+                  type="number"
+                  value={idDrafts[fixture.id] ?? fixture.id}
+                  onChange={(e) => setIdDrafts(drafts => ({ ...drafts, [fixture.id]: e.target.value }))}
+                  onBlur={() => commitRenumber(fixture)}
+                  onKeyDown={(e) => e.key === 'Enter' && commitRenumber(fixture)}
+                  min="1"
+                  step="1"
+                  className="h-6 text-xs w-12 font-mono"
+                  title="Fixture ID"
+                />
+                {numberInput(fixture.x, x => updateFixtureSetup(fixture.id, { x }), "X", "0.1", isHung)}
+                {numberInput(fixture.y, y => updateFixtureSetup(fixture.id, { y }), "Y", "0.1", isHung)}
+                {numberInput(fixture.z, z => updateFixtureSetup(fixture.id, { z }), "Z", "0.1", isHung)}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => handleRemoveFixture(fixture.id)}
+                  title={`Remove fixture ${fixture.id}`}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+
+              {/* Calibration */}
+              {isExpanded && (
+                <div className="ml-5 p-2 bg-muted rounded space-y-2 text-xs">
+                  <div className="space-y-1">
+                    <span className="text-muted-foreground">Fixture type</span>
+                    {typeSelect(fixture.typeId, typeId => updateFixtureSetup(fixture.id, { typeId }))}
+                  </div>
+                  <div className="space-y-1">
+                    <span className="text-muted-foreground">Hung on</span>
+                    <div className="flex gap-1">
+                      <Select
+                        value={position?.id ?? 'free'}
+                        onValueChange={(positionId) => hangFixture(fixture.id, positionId === 'free' ? null : positionId)}
+                      >
+                        <SelectTrigger className="h-6 text-xs flex-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="free" className="text-xs">Free (own X/Y/Z)</SelectItem>
+                          {positions.map(p => (
+                            <SelectItem key={p.id} value={p.id} className="text-xs">
+                              {p.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {position && numberInput(
+                        fixture.positionOffset ?? 0,
+                        offset => hangFixture(fixture.id, position.id, offset),
+                        "Offset along position (m)"
+                      )}
+                    </div>
+                  </div>
+                  {!isHung && <div className="space-y-1">
+                    <span className="text-muted-foreground">Mounting</span>
+                    <Select
+                      value={mountingPresetId(fixture.mounting)}
+                      onValueChange={(presetId) => {
+                        const preset = MOUNTING_PRESETS.find(p => p.id === presetId);
+                        if (preset) updateFixtureSetup(fixture.id, { mounting: { ...preset.mounting } });
+                      }}
+                    >
+                      <SelectTrigger className="h-6 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {MOUNTING_PRESETS.map(p => (
+                          <SelectItem key={p.id} value={p.id} className="text-xs">
+                            {p.name}
+                          </SelectItem>
+                        ))}
+                        <SelectItem value="custom" className="text-xs" disabled>
+                          Custom
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <div className="flex gap-1">
+                      {(['yaw', 'pitch', 'roll'] as const).map(axis => (
+                        <React.Fragment key={axis}>
+                          {numberInput(
+                            (fixture.mounting ?? HUNG)[axis],
+                            value => updateFixtureSetup(fixture.id, { mounting: { ...(fixture.mounting ?? HUNG), [axis]: value } }),
+                            `${axis[0].toUpperCase()}${axis.slice(1)} (°)`,
+                            "1"
+                          )}
+                        </React.Fragment>
+                      ))}
+                    </div>
+                  </div>}
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                      <span className="text-muted-foreground">Pan offset (°)</span>
+                      {numberInput(fixture.panOffset, panOffset => updateFixtureSetup(fixture.id, { panOffset }), "Pan offset", "1")}
+                    </div>
+                    <div className="space-y-1">
+                      <span className="text-muted-foreground">Tilt offset (°)</span>
+                      {numberInput(fixture.tiltOffset, tiltOffset => updateFixtureSetup(fixture.id, { tiltOffset }), "Tilt offset", "1")}
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Invert pan</span>
+                    <Switch
+                      checked={fixture.panInverted}
+                      onCheckedChange={(panInverted) => updateFixtureSetup(fixture.id, { panInverted })}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Invert tilt</span>
+                    <Switch
+                      checked={fixture.tiltInverted}
+                      onCheckedChange={(tiltInverted) => updateFixtureSetup(fixture.id, { tiltInverted })}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between" title="Keep tilt on the same side between targets instead of swinging through the base axis">
+                    <span className="text-muted-foreground">Prefer no flip</span>
+                    <Switch
+                      checked={fixture.preferNoFlip ?? false}
+                      onCheckedChange={(preferNoFlip) => updateFixtureSetup(fixture.id, { preferNoFlip })}
+                    />
+                  </div>
+                  <CalibrationWizard fixture={fixture} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {fixtures.length === 0 && (
+          <p className="text-xs text-muted-foreground text-center py-2">No fixtures patched</p>
+        )}
+      </div>
+
+      {/* Add fixture */}
+      <div className="flex items-center space-x-2 text-xs pl-5">
+        <Input
+          type="number"
+          value={newId}
+          onChange={(e) => setNewId(e.target.value)}
+          placeholder={nextFreeId.toString()}
+          min="1"
+          step="1"
+          className="h-6 text-xs w-12 font-mono"
+          title="Fixture ID"
+        />
+        <Input
+          type="number"
+          value={newX}
+          onChange={(e) => setNewX(e.target.value)}
+          placeholder="X"
+          step="0.1"
+          className="h-6 text-xs flex-1 min-w-0"
+        />
+        <Input
+          type="number"
+          value={newY}
+          onChange={(e) => setNewY(e.target.value)}
+          placeholder="Y"
+          step="0.1"
+          className="h-6 text-xs flex-1 min-w-0"
+        />
+        <Input
+          type="number"
+          value={newZ}
+          onChange={(e) => setNewZ(e.target.value)}
+          placeholder="Z"
+          step="0.1"
+          className="h-6 text-xs flex-1 min-w-0"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-6 w-6 p-0"
+          onClick={handleAddFixture}
+          title="Add fixture"
+        >
+          <Plus className="w-3 h-3" />
+        </Button>
+      </div>
+      <div className="pl-5 pr-8">
+        {typeSelect(newTypeId, setNewTypeId)}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useRef, useState } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Switch } from './ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { useLightingStore } from '../stores/lightingStore';
+import { parseGrandMA2PatchXml, planPatchImport, PatchImportPlan } from '../utils/grandma2-patch';
+import { getFixtureType } from '../utils/fixtureTypes';
+import { FileInput } from 'lucide-react';
+import { useToast } from '../hooks/use-toast';
+
+export const PatchImportDialog: React.FC = () => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const { fixtures, fixtureTypes, applyPatchImport } = useLightingStore();
+
+  const [plan, setPlan] = useState<PatchImportPlan | null>(null);
+  const [dropMissing, setDropMissing] = useState(false);
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const { fixtures: consoleFixtures, skipped } = parseGrandMA2PatchXml(await file.text());
+      setPlan(planPatchImport(consoleFixtures, skipped, fixtures, fixtureTypes));
+      setDropMissing(false);
+    } catch (error) {
+      toast({
+        title: "Patch import failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleApply = () => {
+    if (!plan) return;
+    applyPatchImport(plan, dropMissing);
+    toast({
+      title: "Patch imported",
+      description: `${plan.added.length} added, ${plan.updated.length} updated` +
+        (dropMissing ? `, ${plan.dropped.length} dropped` : '')
+    });
+    setPlan(null);
+  };
+
+  const typeName = (typeId: string) => {
+    const fixtureType = getFixtureType(fixtureTypes, { typeId });
+    return `${fixtureType.manufacturer} ${fixtureType.name}`;
+  };
+
+  const entryList = (entries: PatchImportPlan['added'], emptyText: string) => (
+    entries.length === 0 ? (
+      <p className="text-xs text-muted-foreground">{emptyText}</p>
+    ) : (
+      <div className="space-y-1 max-h-32 overflow-y-auto custom-scrollbar">
+        {entries.map(entry => (
+          <div key={entry.id} className="flex items-center gap-2 text-xs">
+            <span className="w-10 font-mono">#{entry.id}</span>
+            <span className="flex-1 truncate">{entry.name}</span>
+            <span className="text-muted-foreground truncate" title={entry.consoleType}>
+              {typeName(entry.typeId)}
+            </span>
+          </div>
+        ))}
+      </div>
+    )
+  );
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-6 px-2 gap-1 text-xs"
+        onClick={() => fileInputRef.current?.click()}
+        title="Import the patch from a grandMA2 XML export"
+      >
+        <FileInput className="w-3 h-3" />
+        MA2 XML
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".xml,text/xml"
+        onChange={handleFileSelect}
+        className="hidden"
+      />
+
+      <Dialog open={plan !== null} onOpenChange={(open) => !open && setPlan(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Import grandMA2 Patch</DialogTitle>
+          </DialogHeader>
+          {plan && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  Added <Badge variant="default" className="text-xs">{plan.added.length}</Badge>
+                </div>
+                {entryList(plan.added, "No new fixtures")}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  Updated <Badge variant="secondary" className="text-xs">{plan.updated.length}</Badge>
+                </div>
+                {entryList(plan.updated, "No matching fixture IDs")}
+                {plan.updated.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Floor positions and calibration of matching IDs are kept
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    Not on console <Badge variant="outline" className="text-xs">{plan.dropped.length}</Badge>
+                  </div>
+                  {plan.dropped.length > 0 && (
+                    <div className="flex items-center gap-2 text-xs">
+                      <span className="text-muted-foreground">Drop them</span>
+                      <Switch checked={dropMissing} onCheckedChange={setDropMissing} />
+                    </div>
+                  )}
+                </div>
+                {plan.dropped.length > 0 ? (
+                  <p className={`text-xs ${dropMissing ? 'text-destructive' : 'text-muted-foreground'}`}>
+                    {plan.dropped.map(id => `#${id}`).join(', ')}
+                  </p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">Every rig fixture exists on the console</p>
+                )}
+              </div>
+
+              {plan.skipped.length > 0 && (
+                <p className="text-xs text-amber-500">
+                  ⚠️ Skipped {plan.skipped.length} channel-only fixture(s) without a fixture ID: {plan.skipped.join(', ')}
+                </p>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setPlan(null)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleApply}>
+                  Apply
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
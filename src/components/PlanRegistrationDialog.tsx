@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { useLightingStore } from '../stores/lightingStore';
+import { CalibrationPoint } from '../types/lighting';
+import { MIN_REGISTRATION_POINTS, solveImageTransform } from '../utils/planRegistration';
+import { Move, Trash2 } from 'lucide-react';
+import { useToast } from '../hooks/use-toast';
+
+// Points further off than this after the fit are flagged, in meters
+const SUSPECT_RESIDUAL = 0.2;
+
+type PointDraft = { pixelX: number; pixelY: number; realX: string; realY: string };
+
+export const PlanRegistrationDialog: React.FC = () => {
+  const { toast } = useToast();
+  const { floorPlan, setFloorPlanRegistration } = useLightingStore();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [points, setPoints] = useState<PointDraft[]>([]);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+
+  const handleOpen = () => {
+    setPoints(floorPlan.calibrationPoints.map(p => ({
+      pixelX: p.pixelX,
+      pixelY: p.pixelY,
+      realX: p.realX.toString(),
+      realY: p.realY.toString()
+    })));
+    setIsOpen(true);
+  };
+
+  // Clicks are converted to natural image pixels, independent of how big the preview is drawn
+  const handleImageClick = (event: React.MouseEvent<HTMLImageElement>) => {
+    const img = event.currentTarget;
+    const rect = img.getBoundingClientRect();
+    setPoints(points => [...points, {
+      pixelX: ((event.clientX - rect.left) / rect.width) * img.naturalWidth,
+      pixelY: ((event.clientY - rect.top) / rect.height) * img.naturalHeight,
+      realX: '',
+      realY: ''
+    }]);
+  };
+
+  const updatePoint = (index: number, field: 'realX' | 'realY', value: string) => {
+    setPoints(points => points.map((p, i) => i === index ? { ...p, [field]: value } : p));
+  };
+
+  const parsed: CalibrationPoint[] = points.map(p => ({
+    pixelX: p.pixelX,
+    pixelY: p.pixelY,
+    realX: parseFloat(p.realX),
+    realY: parseFloat(p.realY)
+  }));
+  const isComplete = parsed.length >= MIN_REGISTRATION_POINTS &&
+    parsed.every(p => Number.isFinite(p.realX) && Number.isFinite(p.realY));
+
+  // Solve live so bad points show up while typing
+  let fit: ReturnType<typeof solveImageTransform> | null = null;
+  let fitError: string | null = null;
+  if (isComplete) {
+    try {
+      fit = solveImageTransform(parsed);
+    } catch (error) {
+      fitError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  const handleSave = () => {
+    if (!fit) return;
+    setFloorPlanRegistration(parsed, fit.transform);
+    toast({
+      title: "Floor plan registered",
+      description: `${(1 / fit.transform.scale).toFixed(1)} px/m, rotated ${fit.transform.rotation.toFixed(1)}°`
+    });
+    setIsOpen(false);
+  };
+
+  const handleClear = () => {
+    setFloorPlanRegistration([], null);
+    setIsOpen(false);
+  };
+
+  if (!floorPlan.image) return null;
+
+  return (
+    <>
+      <Button variant="outline" size="sm" className="w-full h-7 gap-1 text-xs" onClick={handleOpen}>
+        <Move className="w-3 h-3" />
+        {floorPlan.imageTransform ? 'Edit registration' : 'Register with reference points'}
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Register Floor Plan</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Click {MIN_REGISTRATION_POINTS} or more points you know on the drawing, such as wall corners,
+              and type their real coordinates. Points far apart give the best fit.
+            </p>
+
+            <div className="relative max-h-[50vh] overflow-auto border rounded">
+              <div className="relative inline-block">
+                <img
+                  src={floorPlan.image}
+                  alt="Floor plan"
+                  className="max-w-full cursor-crosshair select-none"
+                  onClick={handleImageClick}
+                  onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                  draggable={false}
+                />
+                {/* Markers are placed in percent so they follow the preview's display size */}
+                {imageSize && points.map((point, index) => (
+                  <span
+                    key={index}
+                    className="absolute -translate-x-1/2 -translate-y-1/2 w-5 h-5 rounded-full bg-destructive text-destructive-foreground text-xs flex items-center justify-center pointer-events-none"
+                    style={{
+                      left: `${(point.pixelX / imageSize.width) * 100}%`,
+                      top: `${(point.pixelY / imageSize.height) * 100}%`
+                    }}
+                  >
+                    {index + 1}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+              {points.map((point, index) => {
+                const residual = fit?.residuals[index];
+                return (
+                  <div key={index} className="flex items-center gap-2 text-xs">
+                    <span className="w-4 text-muted-foreground">{index + 1}</span>
+                    <span className="w-24 font-mono text-muted-foreground">
+                      {Math.round(point.pixelX)}, {Math.round(point.pixelY)} px
+                    </span>
+                    <Input
+                      type="number"
+                      value={point.realX}
+                      onChange={(e) => updatePoint(index, 'realX', e.target.value)}
+                      step="0.1"
+                      className="h-6 text-xs flex-1 min-w-0"
+                      placeholder="Real X (m)"
+                    />
+                    <Input
+                      type="number"
+                      value={point.realY}
+                      onChange={(e) => updatePoint(index, 'realY', e.target.value)}
+                      step="0.1"
+                      className="h-6 text-xs flex-1 min-w-0"
+                      placeholder="Real Y (m)"
+                    />
+                    <span className={`w-16 text-right ${residual !== undefined && residual > SUSPECT_RESIDUAL ? 'text-amber-500' : 'text-muted-foreground'}`}>
+                      {residual !== undefined ? `±${residual.toFixed(2)}m` : ''}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => setPoints(points => points.filter((_, i) => i !== index))}
+                      title="Remove point"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                );
+              })}
+              {points.length === 0 && (
+                <p className="text-xs text-muted-foreground text-center py-2">Click the image to place a point</p>
+              )}
+            </div>
+
+            {fit && (
+              <p className="text-xs text-muted-foreground">
+                Scale {(1 / fit.transform.scale).toFixed(1)} px/m · rotation {fit.transform.rotation.toFixed(1)}° ·
+                origin at {fit.transform.offsetX.toFixed(2)}m, {fit.transform.offsetY.toFixed(2)}m
+              </p>
+            )}
+            {fitError && <p className="text-xs text-destructive">{fitError}</p>}
+
+            <div className="flex justify-between gap-2">
+              {floorPlan.imageTransform ? (
+                <Button variant="outline" onClick={handleClear}>
+                  Remove registration
+                </Button>
+              ) : <span />}
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setIsOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleSave} disabled={!fit}>
+                  Save
+                </Button>
+              </div>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { useLightingStore } from '../stores/lightingStore';
+import { RigPosition } from '../types/lighting';
+import { HUNG, MOUNTING_PRESETS } from '../utils/geometry';
+import { positionLength } from '../utils/positions';
+import { Plus, Trash2, ChevronDown, ChevronRight, AlignHorizontalDistributeCenter } from 'lucide-react';
+
+export const PositionEditor: React.FC = () => {
+  const {
+    fixtures,
+    positions,
+    floorPlan,
+    addPosition,
+    updatePosition,
+    deletePosition,
+    distributeFixtures
+  } = useLightingStore();
+
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [spacings, setSpacings] = useState<Record<string, string>>({});
+
+  const handleAddPosition = () => {
+    addPosition({
+      name: `Position ${positions.length + 1}`,
+      start: { x: floorPlan.width / 4, y: floorPlan.height / 2 },
+      end: { x: (floorPlan.width * 3) / 4, y: floorPlan.height / 2 },
+      height: positions[0]?.height ?? 5,
+      mounting: { ...HUNG }
+    });
+  };
+
+  const handleDeletePosition = (position: RigPosition) => {
+    if (confirm(`Delete "${position.name}"? Its fixtures stay where they are.`)) {
+      deletePosition(position.id);
+    }
+  };
+
+  const numberInput = (
+    value: number,
+    onChange: (value: number) => void,
+    placeholder: string
+  ) => (
+    <Input
+      type="number"
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+      step="0.1"
+      className="h-6 text-xs flex-1 min-w-0"
+      placeholder={placeholder}
+      title={placeholder}
+    />
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Positions</Label>
+        <Button variant="outline" size="sm" className="h-6 px-2 gap-1 text-xs" onClick={handleAddPosition}>
+          <Plus className="w-3 h-3" />
+          New Position
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        {positions.map(position => {
+          const isExpanded = expandedId === position.id;
+          const hung = fixtures.filter(f => f.positionId === position.id);
+          const spacing = parseFloat(spacings[position.id] ?? '');
+          const presetId = MOUNTING_PRESETS.find(p =>
+            p.mounting.yaw === position.mounting.yaw &&
+            p.mounting.pitch === position.mounting.pitch &&
+            p.mounting.roll === position.mounting.roll
+          )?.id ?? 'custom';
+
+          return (
+            <div key={position.id} className="space-y-1">
+              <div className="flex items-center gap-2 text-xs">
+                <button
+                  type="button"
+                  className="w-3 text-muted-foreground"
+                  onClick={() => setExpandedId(isExpanded ? null : position.id)}
+                  title="Edit position"
+                >
+                  {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                </button>
+                <span className="flex-1 truncate">{position.name}</span>
+                <span className="text-muted-foreground">{position.height}m</span>
+                <Badge variant="outline" className="text-xs px-1">
+                  {hung.length}
+                </Badge>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => handleDeletePosition(position)}
+                  title={`Delete ${position.name}`}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+
+              {isExpanded && (
+                <div className="ml-5 p-2 bg-muted rounded space-y-2 text-xs">
+                  <div className="space-y-1">
+                    <span className="text-muted-foreground">Name</span>
+                    <Input
+                      value={position.name}
+                      onChange={(e) => updatePosition(position.id, { name: e.target.value })}
+                      className="h-6 text-xs"
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                      <span className="text-muted-foreground">Start X / Y (m)</span>
+                      <div className="flex gap-1">
+                        {numberInput(position.start.x, x => updatePosition(position.id, { start: { ...position.start, x } }), "Start X")}
+                        {numberInput(position.start.y, y => updatePosition(position.id, { start: { ...position.start, y } }), "Start Y")}
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      <span className="text-muted-foreground">End X / Y (m)</span>
+                      <div className="flex gap-1">
+                        {numberInput(position.end.x, x => updatePosition(position.id, { end: { ...position.end, x } }), "End X")}
+                        {numberInput(position.end.y, y => updatePosition(position.id, { end: { ...position.end, y } }), "End Y")}
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      <span className="text-muted-foreground">Height (m)</span>
+                      {numberInput(position.height, height => updatePosition(position.id, { height }), "Height")}
+                    </div>
+                    <div className="space-y-1">
+                      <span className="text-muted-foreground">Mounting</span>
+                      <Select
+                        value={presetId}
+                        onValueChange={(id) => {
+                          const preset = MOUNTING_PRESETS.find(p => p.id === id);
+                          if (preset) updatePosition(position.id, { mounting: { ...preset.mounting } });
+                        }}
+                      >
+                        <SelectTrigger className="h-6 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {MOUNTING_PRESETS.map(p => (
+                            <SelectItem key={p.id} value={p.id} className="text-xs">
+                              {p.name}
+                            </SelectItem>
+                          ))}
+                          <SelectItem value="custom" className="text-xs" disabled>
+                            Custom
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  {/* Spread the hung fixtures along the position */}
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground whitespace-nowrap">Spacing (m)</span>
+                    <Input
+                      type="number"
+                      value={spacings[position.id] ?? ''}
+                      onChange={(e) => setSpacings(s => ({ ...s, [position.id]: e.target.value }))}
+                      placeholder={`full ${positionLength(position).toFixed(1)}m`}
+                      step="0.1"
+                      min="0.1"
+                      className="h-6 text-xs flex-1 min-w-0"
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-6 px-2 gap-1 text-xs"
+                      onClick={() => distributeFixtures(position.id, spacing > 0 ? spacing : undefined)}
+                      disabled={hung.length === 0}
+                      title="Space the hung fixtures evenly"
+                    >
+                      <AlignHorizontalDistributeCenter className="w-3 h-3" />
+                      Distribute
+                    </Button>
+                  </div>
+                  <div className="text-muted-foreground">
+                    {hung.length > 0
+                      ? `Fixtures: ${hung.map(f => f.id).join(', ')}`
+                      : 'No fixtures hung - pick this position in the patch'}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {positions.length === 0 && (
+          <p className="text-xs text-muted-foreground text-center py-2">No positions - fixtures are placed freely</p>
+        )}
+      </div>
+    </div>
+  );
+};
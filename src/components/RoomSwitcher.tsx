@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { useLightingStore } from '../stores/lightingStore';
+import { Building2, Plus, Pencil, Trash2 } from 'lucide-react';
+
+export const RoomSwitcher: React.FC = () => {
+  const {
+    rooms,
+    activeRoomId,
+    roomSessions,
+    addRoom,
+    renameRoom,
+    deleteRoom,
+    switchRoom
+  } = useLightingStore();
+
+  // null = closed, 'new' = adding a room, otherwise the room being renamed
+  const [editing, setEditing] = useState<'new' | string | null>(null);
+  const [roomName, setRoomName] = useState('');
+
+  const activeRoom = rooms.find(r => r.id === activeRoomId);
+
+  const openNew = () => {
+    setRoomName(`Room ${rooms.length + 1}`);
+    setEditing('new');
+  };
+
+  const openRename = () => {
+    setRoomName(activeRoom?.name ?? '');
+    setEditing(activeRoomId);
+  };
+
+  const handleSave = () => {
+    const name = roomName.trim();
+    if (!name) return;
+    if (editing === 'new') {
+      addRoom(name);
+    } else if (editing) {
+      renameRoom(editing, name);
+    }
+    setEditing(null);
+  };
+
+  const handleDelete = () => {
+    if (!activeRoom) return;
+    if (confirm(`Delete room "${activeRoom.name}" with its rig and presets?`)) {
+      deleteRoom(activeRoom.id);
+      setEditing(null);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Building2 className="w-4 h-4 text-muted-foreground" />
+      <Select value={activeRoomId} onValueChange={switchRoom}>
+        <SelectTrigger className="h-8 w-40 text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {rooms.map(room => (
+            <SelectItem key={room.id} value={room.id}>
+              <span className="flex items-center gap-2">
+                {room.name}
+                {/* Background rooms keep their console connection */}
+                {roomSessions[room.id]?.outputBackend?.isConnected() && (
+                  <span className="w-1.5 h-1.5 rounded-full bg-primary" title="Connected" />
+                )}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={openRename} title="Rename room">
+        <Pencil className="w-3 h-3" />
+      </Button>
+      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={openNew} title="New room">
+        <Plus className="w-4 h-4" />
+      </Button>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'New Room' : 'Rename Room'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="room-name">Room Name</Label>
+              <Input
+                id="room-name"
+                value={roomName}
+                onChange={(e) => setRoomName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                placeholder="e.g., Gallery 2"
+                maxLength={30}
+              />
+              {editing === 'new' && (
+                <p className="text-xs text-muted-foreground">
+                  Starts empty - set up its floor plan, rig and API in the Setup tab
+                </p>
+              )}
+            </div>
+
+            <div className="flex justify-between gap-2">
+              {editing !== 'new' && rooms.length > 1 ? (
+                <Button variant="outline" className="gap-1 text-destructive" onClick={handleDelete}>
+                  <Trash2 className="w-4 h-4" />
+                  Delete
+                </Button>
+              ) : <span />}
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setEditing(null)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleSave} disabled={!roomName.trim()}>
+                  {editing === 'new' ? 'Add Room' : 'Save'}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
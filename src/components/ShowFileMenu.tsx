@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu';
+import { useLightingStore } from '../stores/lightingStore';
+import { createShowFile, decodeShowFile, encodeShowFile } from '../utils/showFile';
+import {
+  RecentShow,
+  ShowFileHandle,
+  forgetRecentShow,
+  listRecentShows,
+  pickShowFile,
+  readRecentShow,
+  rememberRecentShow,
+  writeShowFile
+} from '../utils/showStorage';
+import { FolderOpen, Save, FileDown, History, ChevronDown } from 'lucide-react';
+import { useToast } from '../hooks/use-toast';
+
+export const ShowFileMenu: React.FC = () => {
+  const { toast } = useToast();
+  const { currentShow, rooms, activeRoomId, loadShow, setCurrentShow } = useLightingStore();
+
+  const [recentShows, setRecentShows] = useState<RecentShow[]>([]);
+  const [isSaveAsOpen, setIsSaveAsOpen] = useState(false);
+  const [saveAsName, setSaveAsName] = useState('');
+  const [includeImage, setIncludeImage] = useState(true);
+  const [report, setReport] = useState<{ name: string; lines: string[] } | null>(null);
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : String(error),
+      variant: "destructive"
+    });
+  };
+
+  const openFile = async (file: File, handle: ShowFileHandle | null) => {
+    const { show, report } = await decodeShowFile(file);
+    loadShow(show, file.name, handle);
+    if (handle) await rememberRecentShow(handle);
+
+    if (report.length > 0) {
+      setReport({ name: file.name, lines: report });
+    } else {
+      toast({
+        title: "Show opened",
+        description: `${file.name}: ${show.fixtures.length} fixtures, ${show.presets.length} presets`
+      });
+    }
+  };
+
+  const handleOpen = async () => {
+    try {
+      const picked = await pickShowFile();
+      if (picked) await openFile(picked.file, picked.handle);
+    } catch (error) {
+      showError("Could not open show", error);
+    }
+  };
+
+  const handleOpenRecent = async (recent: RecentShow) => {
+    try {
+      await openFile(await readRecentShow(recent), recent.handle);
+    } catch (error) {
+      // A moved or deleted file can't be reopened - take it off the list
+      if (error instanceof DOMException && error.name === 'NotFoundError') {
+        await forgetRecentShow(recent.id);
+      }
+      showError(`Could not open ${recent.name}`, error);
+    }
+  };
+
+  const save = async (name: string, handle: ShowFileHandle | null, zipped: boolean) => {
+    try {
+      const show = createShowFile(useLightingStore.getState());
+      const blob = await encodeShowFile(show, zipped);
+      const written = await writeShowFile(blob, name, handle);
+      if (!written) return;
+
+      if (written === 'download') {
+        setCurrentShow(name, null);
+      } else {
+        setCurrentShow(written.name, written);
+        await rememberRecentShow(written);
+      }
+      toast({
+        title: "Show saved",
+        description: written === 'download' ? name : written.name
+      });
+    } catch (error) {
+      showError("Could not save show", error);
+    }
+  };
+
+  // Save writes over the open file; without one it behaves like Save As
+  const handleSave = () => {
+    if (currentShow?.handle) {
+      save(currentShow.name, currentShow.handle, currentShow.name.endsWith('.zip'));
+    } else {
+      openSaveAs();
+    }
+  };
+
+  const openSaveAs = () => {
+    setSaveAsName((currentShow?.name ?? rooms.find(r => r.id === activeRoomId)?.name ?? 'show').replace(/\.(json|zip)$/, ''));
+    setIsSaveAsOpen(true);
+  };
+
+  const handleSaveAs = () => {
+    const name = saveAsName.trim();
+    if (!name) return;
+    setIsSaveAsOpen(false);
+    save(`${name}.${includeImage ? 'zip' : 'json'}`, null, includeImage);
+  };
+
+  return (
+    <>
+      <DropdownMenu onOpenChange={(open) => open && listRecentShows().then(setRecentShows).catch(() => setRecentShows([]))}>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-1 max-w-48">
+            <span className="truncate">{currentShow?.name ?? 'Untitled show'}</span>
+            <ChevronDown className="w-3 h-3 flex-shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuItem onSelect={handleOpen}>
+            <FolderOpen className="w-4 h-4 mr-2" />
+            Open…
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={handleSave}>
+            <Save className="w-4 h-4 mr-2" />
+            Save
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={openSaveAs}>
+            <FileDown className="w-4 h-4 mr-2" />
+            Save As…
+          </DropdownMenuItem>
+          {recentShows.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="flex items-center gap-2 text-xs text-muted-foreground">
+                <History className="w-3 h-3" />
+                Recent
+              </DropdownMenuLabel>
+              {recentShows.map(recent => (
+                <DropdownMenuItem key={recent.id} onSelect={() => handleOpenRecent(recent)}>
+                  <span className="truncate">{recent.name}</span>
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isSaveAsOpen} onOpenChange={setIsSaveAsOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save Show As</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="show-name">File Name</Label>
+              <Input
+                id="show-name"
+                value={saveAsName}
+                onChange={(e) => setSaveAsName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSaveAs()}
+                placeholder="e.g., Main Hall"
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <Label>Include floor plan image</Label>
+                <p className="text-xs text-muted-foreground">
+                  Saves a .zip with the plan; otherwise a .json
+                </p>
+              </div>
+              <Switch checked={includeImage} onCheckedChange={setIncludeImage} />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setIsSaveAsOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSaveAs} disabled={!saveAsName.trim()}>
+                Save
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={report !== null} onOpenChange={(open) => !open && setReport(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Opened {report?.name}</DialogTitle>
+          </DialogHeader>
+          {report && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                The show was loaded with these changes:
+              </p>
+              <ul className="space-y-1 max-h-64 overflow-y-auto custom-scrollbar text-xs list-disc pl-4">
+                {report.lines.map((line, index) => (
+                  <li key={index}>{line}</li>
+                ))}
+              </ul>
+              <div className="flex justify-end">
+                <Button onClick={() => setReport(null)}>OK</Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { Input } from './ui/input';
+import { useLightingStore } from '../stores/lightingStore';
+import { ArrowUpFromLine } from 'lucide-react';
+
+// Quick heights for floor plan clicks: floor, plinth tops and eye height
+const HEIGHT_PRESETS = [
+  { label: 'Floor', height: 0 },
+  { label: '1.0m', height: 1.0 },
+  { label: '1.6m', height: 1.6 }
+];
+
+export const TargetHeightControl: React.FC = () => {
+  const { targetHeight, setTargetHeight } = useLightingStore();
+  const isPreset = HEIGHT_PRESETS.some(p => p.height === targetHeight);
+  const [isCustom, setIsCustom] = useState(!isPreset);
+
+  const buttonClass = (active: boolean) =>
+    `text-xs px-2 py-1 rounded border ${active
+      ? 'border-primary text-primary bg-primary/10'
+      : 'border-border/50 hover:border-primary/50 hover:text-primary'}`;
+
+  return (
+    <div
+      className="flex items-center gap-1 bg-background/90 backdrop-blur-sm px-2 py-1.5 rounded-lg border border-border/50"
+      title="Height above the floor, or above a raised area, that clicks on the plan aim at"
+    >
+      <ArrowUpFromLine className="w-3 h-3 text-muted-foreground" />
+      {HEIGHT_PRESETS.map(preset => (
+        <button
+          key={preset.label}
+          type="button"
+          className={buttonClass(!isCustom && targetHeight === preset.height)}
+          onClick={() => {
+            setIsCustom(false);
+            setTargetHeight(preset.height);
+          }}
+        >
+          {preset.label}
+        </button>
+      ))}
+      <button type="button" className={buttonClass(isCustom)} onClick={() => setIsCustom(true)}>
+        Custom
+      </button>
+      {isCustom && (
+        <Input
+          type="number"
+          value={targetHeight}
+          onChange={(e) => setTargetHeight(parseFloat(e.target.value) || 0)}
+          step="0.1"
+          min="0"
+          className="h-6 w-16 text-xs"
+          title="Target height (m)"
+        />
+      )}
+    </div>
+  );
+};
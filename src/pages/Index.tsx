@@ -3,6 +3,9 @@ import { FloorPlan } from '../components/FloorPlan';
 import { ControlPanel } from '../components/ControlPanel';
 import { PresetManager } from '../components/PresetManager';
 import { FixtureList } from '../components/FixtureList';
+import { GroupPanel } from '../components/GroupPanel';
+import { ShowFileMenu } from '../components/ShowFileMenu';
+import { RoomSwitcher } from '../components/RoomSwitcher';
 import { KeyboardShortcuts } from '../components/KeyboardShortcuts';
 import { useLightingStore } from '../stores/lightingStore';
 import { Badge } from '../components/ui/badge';
@@ -11,15 +14,18 @@ const Index = () => {
   const {
     fixtures,
     selectedFixtures,
-    apiConfig,
-    apiClient,
+    outputBackend,
+    activeRoomId,
     initializeApi
   } = useLightingStore();
 
-  // Initialize API connection on mount
+  // Connect each room to its API the first time it's opened
   useEffect(() => {
-    initializeApi(apiConfig.baseUrl);
-  }, [initializeApi, apiConfig.baseUrl]);
+    const { outputBackend, apiConfig } = useLightingStore.getState();
+    if (!outputBackend) {
+      initializeApi(apiConfig.baseUrl);
+    }
+  }, [initializeApi, activeRoomId]);
   const activeFixtures = fixtures.filter(f => f.dimmer > 0).length;
   const selectedCount = selectedFixtures.length;
   return <div className="min-h-screen bg-background flex flex-col">
@@ -39,13 +45,15 @@ const Index = () => {
               <Badge variant="outline" className="text-xs">
                 Professional
               </Badge>
+              <RoomSwitcher />
+              <ShowFileMenu />
             </div>
             
             <div className="flex items-center gap-4 text-sm">
               <div className="flex items-center gap-2">
                 <Zap className="w-4 h-4" />
                 <span className="text-muted-foreground">
-                  {activeFixtures}/6 active
+                  {activeFixtures}/{fixtures.length} active
                 </span>
               </div>
               {selectedCount > 0 && <div className="flex items-center gap-2">
@@ -56,10 +64,10 @@ const Index = () => {
                 </div>}
               <div className="flex items-center gap-2">
                 <Keyboard className="w-4 h-4" />
-                <span className="text-muted-foreground">1-6 keys</span>
+                <span className="text-muted-foreground">ID keys</span>
               </div>
-              <div className={`px-2 py-1 rounded text-xs ${apiClient && apiClient.isConnected() ? 'bg-primary/20 text-primary' : 'bg-destructive/20 text-destructive'}`}>
-                {apiClient && apiClient.isConnected() ? 'Connected' : 'Disconnected'}
+              <div className={`px-2 py-1 rounded text-xs ${outputBackend && outputBackend.isConnected() ? 'bg-primary/20 text-primary' : 'bg-destructive/20 text-destructive'}`}>
+                {outputBackend && outputBackend.isConnected() ? 'Connected' : 'Disconnected'}
               </div>
             </div>
           </div>
@@ -82,6 +90,11 @@ const Index = () => {
                 <FixtureList />
               </div>
               
+              {/* Named Groups */}
+              <div className="flex-shrink-0">
+                <GroupPanel />
+              </div>
+              
               {/* Control Panel - Group Controls */}
               <div className="flex-shrink-0">
                 <ControlPanel />
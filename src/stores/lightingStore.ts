@@ -1,8 +1,16 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
-import { LightingState, Fixture, Preset } from '../types/lighting';
-import { calculatePanTilt, degreesToPercent } from '../utils/geometry';
-import { GrandMA2ApiClient } from '../utils/grandma2-api';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { LightingState, ApiConfig, CalibrationPoint, OutputBackendKind, Fixture, FixtureGroup, FixtureType, FloorPlan, HeightZone, ImageTransform, Obstacle, Preset, RigPosition, Room } from '../types/lighting';
+import { calculatePanTilt, degreesToPercent, HUNG } from '../utils/geometry';
+import { builtInFixtureTypes, getFixtureType, DEFAULT_FIXTURE_TYPE_ID } from '../utils/fixtureTypes';
+import { DEFAULT_OUTPUT_BACKEND, OutputBackend, createOutputBackend } from '../utils/outputBackend';
+import { PatchImportPlan } from '../utils/grandma2-patch';
+import { distributeOffsets, hangOnPosition, projectOntoPosition } from '../utils/positions';
+import { aimHeightAt } from '../utils/heightZones';
+import { fitSpotSize, throwDistance } from '../utils/spotSize';
+import { ShowFile } from '../utils/showFile';
+import { ShowFileHandle } from '../utils/showStorage';
+import { isStoredPlanImage, loadPlanImages, savePlanImages } from '../utils/planImageStorage';
 import defaultFloorPlanImage from '../assets/default-floor-plan.png';
 
 interface LightingStore extends LightingState {
@@ -11,10 +19,26 @@ interface LightingStore extends LightingState {
   selectAllFixtures: () => void;
   clearSelection: () => void;
   selectFixtureById: (id: number) => void;
+  createGroup: (name: string, fixtureIds: number[]) => void;
+  updateGroup: (id: string, updates: Partial<Omit<FixtureGroup, 'id'>>) => void;
+  deleteGroup: (id: string) => void;
+  recallGroup: (id: string, multi?: boolean) => void;
   updateFixture: (id: number, updates: Partial<Fixture>) => void;
-  setTargetPoint: (x: number, y: number) => void;
-  aimFixtureAt: (fixtureId: number, x: number, y: number) => void;
-  aimMultipleFixturesAt: (fixtureIds: number[], x: number, y: number) => void;
+  // Patch or calibration edits (position, mounting, offsets, inversions...), re-aimed at the stored target
+  updateFixtureSetup: (id: number, updates: Partial<Fixture>) => void;
+  addFixture: (fixture: Partial<Fixture> & { id: number }) => void;
+  removeFixtures: (fixtureIds: number[]) => void;
+  renumberFixture: (oldId: number, newId: number) => void;
+  applyPatchImport: (plan: PatchImportPlan, dropMissing: boolean) => void;
+  addFixtureType: (fixtureType: FixtureType) => void;
+  updateFixtureType: (id: string, updates: Partial<FixtureType>) => void;
+  deleteFixtureType: (id: string) => void;
+  setTargetPoint: (x: number, y: number, z?: number) => void;
+  setTargetHeight: (height: number) => void;
+  aimFixtureAt: (fixtureId: number, x: number, y: number, z?: number) => void;
+  aimMultipleFixturesAt: (fixtureIds: number[], x: number, y: number, z?: number) => void;
+  aimFixturesAtPoints: (items: { fixtureId: number; x: number; y: number; z?: number; spotDiameter?: number }[]) => void;
+  setSpotDiameter: (fixtureIds: number[], spotDiameter: number | null) => void;
   updateDimmer: (fixtureIds: number[], dimmer: number) => void;
   updateColor: (fixtureIds: number[], r: number, g: number, b: number) => void;
   updateGobo: (fixtureIds: number[], gobo: number) => void;
@@ -28,37 +52,79 @@ interface LightingStore extends LightingState {
   loadPreset: (presetId: string) => Promise<void>;
   deletePreset: (presetId: string) => void;
   updateApiConfig: (baseUrl: string, grandma2Host: string, grandma2Port: number) => void;
+  setOutputBackend: (backend: OutputBackendKind) => Promise<boolean>;
   setFloorPlan: (image: string, width: number, height: number) => void;
+  setFloorPlanRegistration: (calibrationPoints: CalibrationPoint[], imageTransform: ImageTransform | null) => void;
   updateFloorPlanDimensions: (width: number, height: number) => void;
-  updateFixtureHeight: (height: number) => void;
   updateFixturePosition: (id: number, x: number, y: number) => void;
-  adjustFixtureSpacing: (spacing: number) => void;
+  addPosition: (position: Omit<RigPosition, 'id'>) => void;
+  updatePosition: (id: string, updates: Partial<Omit<RigPosition, 'id'>>) => void;
+  deletePosition: (id: string) => void;
+  addObstacle: (obstacle: Omit<Obstacle, 'id'>) => void;
+  updateObstacle: (id: string, updates: Partial<Omit<Obstacle, 'id'>>) => void;
+  deleteObstacle: (id: string) => void;
+  addHeightZone: (zone: Omit<HeightZone, 'id'>) => void;
+  updateHeightZone: (id: string, updates: Partial<Omit<HeightZone, 'id'>>) => void;
+  deleteHeightZone: (id: string) => void;
+  hangFixture: (fixtureId: number, positionId: string | null, offset?: number) => void;
+  distributeFixtures: (positionId: string, spacing?: number) => void;
   setScale: (scale: number) => void;
-  // API client
-  apiClient: GrandMA2ApiClient | null;
+  // Rooms
+  addRoom: (name: string) => void;
+  renameRoom: (id: string, name: string) => void;
+  deleteRoom: (id: string) => void;
+  switchRoom: (id: string) => void;
+  // Show file
+  currentShow: CurrentShow | null;
+  loadShow: (show: ShowFile, name: string, handle: ShowFileHandle | null) => void;
+  setCurrentShow: (name: string, handle: ShowFileHandle | null) => void;
+  // Output backend of the active room
+  outputBackend: OutputBackend | null;
+  roomSessions: Record<string, RoomSession>;
   initializeApi: (baseUrl: string) => Promise<boolean>;
 }
 
+type CurrentShow = { name: string; handle: ShowFileHandle | null };
+
+// Runtime state of an inactive room, kept so its connection stays up while it's in the background
+interface RoomSession {
+  outputBackend: OutputBackend | null;
+  currentShow: CurrentShow | null;
+}
+
 // Room parameters - Updated dimensions
 const ROOM_WIDTH_X = 38;   // m (ancho)
 const ROOM_LENGTH_Y = 35;  // m (largo)
 const LIGHTS_Y = 15.51;    // m (from bottom edge)
 const LIGHTS_Z = 5;     // m (height)
 
-// Fixed fixture positions
+// Default truss the rig hangs on
+const defaultPositions: RigPosition[] = [
+  {
+    id: 'truss-1',
+    name: 'Truss 1',
+    start: { x: 15.8, y: LIGHTS_Y },
+    end: { x: 24.32, y: LIGHTS_Y },
+    height: LIGHTS_Z,
+    mounting: { ...HUNG }
+  }
+];
+
+// Default fixture positions, as offsets along the truss
 const fixturePositions = [
-  { id: 6, x: 15.8, y: 15.51 },
-  { id: 5, x: 17.43, y: 15.51 },
-  { id: 4, x: 19.06, y: 15.51 },
-  { id: 3, x: 21.06, y: 15.51 },
-  { id: 2, x: 22.69, y: 15.51 },
-  { id: 1, x: 24.32, y: 15.51 }
+  { id: 6, positionOffset: 0 },
+  { id: 5, positionOffset: 1.63 },
+  { id: 4, positionOffset: 3.26 },
+  { id: 3, positionOffset: 5.26 },
+  { id: 2, positionOffset: 6.89 },
+  { id: 1, positionOffset: 8.52 }
 ];
 
-const defaultFixtures: Fixture[] = fixturePositions.map(pos => ({
-  id: pos.id,
-  x: pos.x,
-  y: pos.y,
+// Build a fully populated fixture from the patch defaults
+const createFixture = (fixture: Partial<Fixture> & { id: number }): Fixture => ({
+  typeId: DEFAULT_FIXTURE_TYPE_ID,
+  x: ROOM_WIDTH_X / 2,
+  y: LIGHTS_Y,
   z: LIGHTS_Z,
   pan: 0,
   tilt: 0,
@@ -71,37 +137,167 @@ const defaultFixtures: Fixture[] = fixturePositions.map(pos => ({
   frost: 0,
   isSelected: false,
   isParked: false,
-  targetX: pos.x,
+  targetX: fixture.x ?? ROOM_WIDTH_X / 2,
   targetY: ROOM_LENGTH_Y / 2, // Default target at room center
-  panRange: { min: -270, max: 270 },
-  tiltRange: { min: -134, max: 134 },
+  targetZ: 0,
+  mounting: { ...HUNG },
   panOffset: 0,
   tiltOffset: 0,
   panInverted: false,
-  tiltInverted: true // Match Python INVERT_TILT = True
-}));
+  tiltInverted: true, // Match Python INVERT_TILT = True
+  ...fixture
+});
+
+// Throw change, in meters, below which a re-aim leaves a spot-sized fixture's lens alone
+const THROW_TOLERANCE = 0.01;
+
+// Point a fixture's pan/tilt at its stored target
+// previous is the fixture before it was retargeted, when there was one
+const aimAtTarget = (fixture: Fixture, fixtureTypes: FixtureType[], previous?: Fixture): Fixture => {
+  const fixtureType = getFixtureType(fixtureTypes, fixture);
+  const { pan, tilt, clamped } = calculatePanTilt(
+    fixture,
+    fixtureType,
+    fixture.targetX,
+    fixture.targetY,
+    fixture.targetZ ?? 0
+  );
+  const aimed = { ...fixture, pan, tilt, isClamped: clamped };
+  // Fixtures with a spot size refit zoom and focus when the spot size or throw changes;
+  // re-aiming at the same throw keeps a focus trimmed by hand
+  const refit = !previous ||
+    previous.spotDiameter !== fixture.spotDiameter ||
+    Math.abs(throwDistance(previous) - throwDistance(fixture)) > THROW_TOLERANCE;
+  return refit ? fitSpotSize(aimed, fixtureType) : aimed;
+};
+
+// Send zoom and focus for fixtures whose lens follows their spot size
+const sendSpotLens = (fixtures: Fixture[], outputBackend: OutputBackend | null) => {
+  const fitted = fixtures.filter(f => f.spotDiameter);
+  if (outputBackend && fitted.length > 0) {
+    outputBackend.sendLensBatch(fitted.map(f => ({ fixture: f.id, zoom: f.zoom, focus: f.focus })));
+  }
+};
+
+// Default rig, used until a patch has been edited
+const defaultFixtures: Fixture[] = fixturePositions.map(pos => {
+  const fixture = hangOnPosition(createFixture(pos), defaultPositions[0]);
+  return aimAtTarget({ ...fixture, targetX: fixture.x }, builtInFixtureTypes);
+});
+
+const defaultFloorPlan: FloorPlan = {
+  image: defaultFloorPlanImage,
+  width: ROOM_WIDTH_X,
+  height: ROOM_LENGTH_Y,
+  calibrationPoints: [],
+  pixelsPerMeter: 20
+};
+
+const defaultApiConfig: ApiConfig = {
+  baseUrl: 'http://localhost:8000',
+  grandma2Host: '192.168.1.100',
+  grandma2Port: 30000,
+};
+
+const DEFAULT_ROOM_ID = 'room-1';
+
+// The room-specific part of the state
+const roomSnapshot = (state: LightingState): Omit<Room, 'id' | 'name'> => ({
+  floorPlan: state.floorPlan,
+  fixtures: state.fixtures.map(f => ({ ...f, isSelected: false })),
+  positions: state.positions,
+  obstacles: state.obstacles,
+  heightZones: state.heightZones,
+  groups: state.groups,
+  presets: state.presets,
+  apiConfig: state.apiConfig
+});
+
+// Uploaded plan images by room id, as last written to IndexedDB
+let storedPlanImages: Record<string, string> | null = null;
+
+// Rooms as saved to localStorage; uploaded plan images stay inline until they're safely in IndexedDB
+const persistedRoom = (room: Room): Room =>
+  storedPlanImages && isStoredPlanImage(room.floorPlan.image)
+    ? { ...room, floorPlan: { ...room.floorPlan, image: null } }
+    : room;
+
+// Top-level state for a room that becomes active
+const roomState = (room: Room) => ({
+  floorPlan: room.floorPlan,
+  fixtures: room.fixtures,
+  positions: room.positions,
+  obstacles: room.obstacles ?? [], // Rooms saved before obstacles and height zones existed
+  heightZones: room.heightZones ?? [],
+  groups: room.groups,
+  presets: room.presets,
+  apiConfig: room.apiConfig,
+  selectedFixtures: [],
+  targetPoint: null
+});
+
+// Re-aim moved fixtures at their existing targets and send the new angles in one batch
+const reaimFixtures = (
+  moved: Fixture[],
+  fixtureTypes: FixtureType[],
+  outputBackend: OutputBackend | null
+): Fixture[] => {
+  const aimed = moved.map(f => aimAtTarget(f, fixtureTypes));
+  if (outputBackend && aimed.length > 0) {
+    outputBackend.sendPanTiltBatch(aimed.map(f => ({ fixture: f.id, pan: f.pan, tilt: f.tilt })));
+  }
+  sendSpotLens(aimed, outputBackend);
+  return aimed;
+};
+
+// Playback attributes recalled from a preset; patch data (position, calibration) is left alone
+const applyPresetFixture = (fixture: Fixture, saved: Preset['fixtures'][number]): Fixture => ({
+  ...fixture,
+  pan: saved.pan,
+  tilt: saved.tilt,
+  dimmer: saved.dimmer,
+  color: saved.color,
+  gobo: saved.gobo,
+  zoom: saved.zoom,
+  iris: saved.iris,
+  focus: saved.focus || 50,
+  frost: saved.frost,
+  targetX: saved.targetX,
+  targetY: saved.targetY,
+  targetZ: saved.targetZ ?? 0
+});
 
 export const useLightingStore = create<LightingStore>()(
   persist(
     (set, get) => ({
       fixtures: defaultFixtures,
-      floorPlan: {
-        image: defaultFloorPlanImage,
-        width: ROOM_WIDTH_X,
-        height: ROOM_LENGTH_Y,
-        calibrationPoints: [],
-        pixelsPerMeter: 20
-      },
+      fixtureTypes: builtInFixtureTypes,
+      positions: defaultPositions,
+      obstacles: [],
+      heightZones: [],
+      floorPlan: defaultFloorPlan,
       selectedFixtures: [],
+      groups: [],
       presets: [],
-      apiConfig: {
-        baseUrl: 'http://localhost:8000',
-        grandma2Host: '192.168.1.100',
-        grandma2Port: 30000,
-      },
+      apiConfig: defaultApiConfig,
       scale: 0.5,
       targetPoint: null,
-      apiClient: null,
+      targetHeight: 0,
+      rooms: [{
+        id: DEFAULT_ROOM_ID,
+        name: 'Room 1',
+        floorPlan: defaultFloorPlan,
+        fixtures: defaultFixtures,
+        positions: defaultPositions,
+        obstacles: [],
+        heightZones: [],
+        groups: [],
+        presets: [],
+        apiConfig: defaultApiConfig
+      }],
+      activeRoomId: DEFAULT_ROOM_ID,
+      outputBackend: null,
+      roomSessions: {},
 
       selectFixture: (id, multi = false) => set(state => {
     if (multi) {
@@ -160,75 +356,232 @@ export const useLightingStore = create<LightingStore>()(
     fixtures: state.fixtures.map(f => ({ ...f, isSelected: f.id === id }))
   })),
 
+  createGroup: (name, fixtureIds) => set(state => ({
+    groups: [...state.groups, {
+      id: Date.now().toString(),
+      name,
+      fixtureIds: [...fixtureIds]
+    }]
+  })),
+
+  updateGroup: (id, updates) => set(state => ({
+    groups: state.groups.map(g => g.id === id ? { ...g, ...updates } : g)
+  })),
+
+  deleteGroup: (id) => set(state => ({
+    groups: state.groups.filter(g => g.id !== id)
+  })),
+
+  recallGroup: (id, multi = false) => set(state => {
+    const group = state.groups.find(g => g.id === id);
+    if (!group) return state;
+
+    // Keep the group's order; when adding, append members not already selected
+    const members = group.fixtureIds.filter(fId => state.fixtures.some(f => f.id === fId));
+    const selectedFixtures = multi
+      ? [...state.selectedFixtures, ...members.filter(fId => !state.selectedFixtures.includes(fId))]
+      : members;
+
+    return {
+      selectedFixtures,
+      fixtures: state.fixtures.map(f => ({ ...f, isSelected: selectedFixtures.includes(f.id) }))
+    };
+  }),
+
   updateFixture: (id, updates) => set(state => ({
     fixtures: state.fixtures.map(f => 
       f.id === id ? { ...f, ...updates } : f
     )
   })),
 
-  setTargetPoint: (x: number, y: number) => 
-    set({ targetPoint: { x, y } }),
+  updateFixtureSetup: (id, updates) => {
+    const state = get();
+    const fixture = state.fixtures.find(f => f.id === id);
+    if (!fixture) return;
+
+    const [aimed] = reaimFixtures([{ ...fixture, ...updates }], state.fixtureTypes, state.outputBackend);
+    set(state => ({
+      fixtures: state.fixtures.map(f => f.id === id ? aimed : f)
+    }));
+  },
+
+  addFixture: (fixture) => set(state => {
+    if (state.fixtures.some(f => f.id === fixture.id)) return state;
+    return {
+      fixtures: [...state.fixtures, aimAtTarget(createFixture(fixture), state.fixtureTypes)].sort((a, b) => a.id - b.id)
+    };
+  }),
+
+  removeFixtures: (fixtureIds) => set(state => ({
+    fixtures: state.fixtures.filter(f => !fixtureIds.includes(f.id)),
+    selectedFixtures: state.selectedFixtures.filter(id => !fixtureIds.includes(id)),
+    groups: state.groups.map(g => ({
+      ...g,
+      fixtureIds: g.fixtureIds.filter(id => !fixtureIds.includes(id))
+    }))
+  })),
+
+  renumberFixture: (oldId, newId) => set(state => {
+    if (oldId === newId || state.fixtures.some(f => f.id === newId)) return state;
+    const renumber = (id: number) => id === oldId ? newId : id;
+    return {
+      fixtures: state.fixtures
+        .map(f => ({ ...f, id: renumber(f.id) }))
+        .sort((a, b) => a.id - b.id),
+      selectedFixtures: state.selectedFixtures.map(renumber),
+      groups: state.groups.map(g => ({ ...g, fixtureIds: g.fixtureIds.map(renumber) })),
+      // Keep stored presets pointing at the same physical fixture
+      presets: state.presets.map(p => ({
+        ...p,
+        fixtures: p.fixtures.map(f => ({ ...f, id: renumber(f.id) }))
+      }))
+    };
+  }),
+
+  applyPatchImport: (plan, dropMissing) => set(state => {
+    const dropped = dropMissing ? plan.dropped : [];
+    const kept = state.fixtures
+      .filter(f => !dropped.includes(f.id))
+      .map(f => {
+        // Matching IDs keep their floor position and calibration
+        const entry = plan.updated.find(e => e.id === f.id);
+        return entry ? { ...f, typeId: entry.typeId, name: entry.name } : f;
+      });
+
+    // New fixtures are spread across the middle of the room until they're placed
+    const { width, height } = state.floorPlan;
+    const added = plan.added.map((entry, index) => aimAtTarget(createFixture({
+      id: entry.id,
+      name: entry.name,
+      typeId: entry.typeId,
+      x: (width * (index + 1)) / (plan.added.length + 1),
+      y: height / 2,
+      z: state.fixtures[0]?.z ?? LIGHTS_Z
+    }), state.fixtureTypes));
+
+    return {
+      fixtures: [...kept, ...added].sort((a, b) => a.id - b.id),
+      selectedFixtures: state.selectedFixtures.filter(id => !dropped.includes(id)),
+      groups: state.groups.map(g => ({
+        ...g,
+        fixtureIds: g.fixtureIds.filter(id => !dropped.includes(id))
+      }))
+    };
+  }),
+
+  addFixtureType: (fixtureType) => set(state => {
+    if (state.fixtureTypes.some(t => t.id === fixtureType.id)) return state;
+    return { fixtureTypes: [...state.fixtureTypes, { ...fixtureType, builtIn: false }] };
+  }),
+
+  updateFixtureType: (id, updates) => set(state => ({
+    fixtureTypes: state.fixtureTypes.map(t =>
+      t.id === id ? { ...t, ...updates, id: t.id, builtIn: t.builtIn } : t
+    )
+  })),
+
+  deleteFixtureType: (id) => set(state => {
+    const fixtureType = state.fixtureTypes.find(t => t.id === id);
+    if (!fixtureType || fixtureType.builtIn) return state;
+    return {
+      fixtureTypes: state.fixtureTypes.filter(t => t.id !== id),
+      // Fixtures of a deleted type fall back to the default type
+      fixtures: state.fixtures.map(f =>
+        f.typeId === id ? { ...f, typeId: DEFAULT_FIXTURE_TYPE_ID } : f
+      )
+    };
+  }),
+
+  setTargetPoint: (x: number, y: number, z?: number) => 
+    set(state => ({ targetPoint: { x, y, z: z ?? aimHeightAt(state.heightZones, state.targetHeight, x, y) } })),
+
+  setTargetHeight: (height: number) =>
+    set({ targetHeight: Math.max(0, height) }),
 
   setScale: (scale: number) => 
     set({ scale }),
 
-  aimFixtureAt: (fixtureId, x, y) => {
+  aimFixtureAt: (fixtureId, x, y, z) => {
     const state = get();
     const fixture = state.fixtures.find(f => f.id === fixtureId);
     if (!fixture) return;
 
-    // Calculate pan/tilt with floor level target (z=0) and fixture height
-    const { pan, tilt } = calculatePanTilt(fixture, x, y, 0);
+    // Aim at the current target height above whatever surface is there, unless a height is given
+    const targetZ = z ?? aimHeightAt(state.heightZones, state.targetHeight, x, y);
+    const aimed = aimAtTarget({ ...fixture, targetX: x, targetY: y, targetZ }, state.fixtureTypes, fixture);
     
-    // Send pan/tilt to API if connected (now using real degree values)
-    if (get().apiClient) {
-      get().apiClient.sendPanTilt(fixtureId, pan, tilt);
+    // Send pan/tilt to the output backend if connected (now using real degree values)
+    if (get().outputBackend) {
+      get().outputBackend.sendPanTilt(fixtureId, aimed.pan, aimed.tilt);
     }
+    sendSpotLens([aimed], get().outputBackend);
     
     // Update local state - only update this fixture's target and position
     set(state => ({
       fixtures: state.fixtures.map(f => 
-        f.id === fixtureId ? { ...f, pan, tilt, targetX: x, targetY: y } : f
+        f.id === fixtureId ? aimed : f
       ),
-      targetPoint: { x, y }
+      targetPoint: { x, y, z: targetZ }
     }));
   },
 
-  aimMultipleFixturesAt: (fixtureIds: number[], x: number, y: number) => {
+  aimMultipleFixturesAt: (fixtureIds: number[], x: number, y: number, z?: number) => {
     const state = get();
-    
-    // Calculate pan/tilt for each fixture
-    const items = fixtureIds
-      .map(id => {
-        const fixture = state.fixtures.find(f => f.id === id);
+    const targetZ = z ?? aimHeightAt(state.heightZones, state.targetHeight, x, y);
+    get().aimFixturesAtPoints(fixtureIds.map(fixtureId => ({ fixtureId, x, y, z: targetZ })));
+    set({ targetPoint: { x, y, z: targetZ } });
+  },
+
+  aimFixturesAtPoints: (items) => {
+    const state = get();
+
+    // Calculate pan/tilt for each fixture at its own point
+    const aimed = items
+      .map(item => {
+        const fixture = state.fixtures.find(f => f.id === item.fixtureId);
         if (!fixture) return null;
-        
-        const { pan, tilt } = calculatePanTilt(fixture, x, y, 0);
-        return { fixture: id, pan, tilt };
+
+        const targetZ = item.z ?? aimHeightAt(state.heightZones, state.targetHeight, item.x, item.y);
+        // A spot size given with the target replaces the fixture's own
+        return aimAtTarget({
+          ...fixture,
+          targetX: item.x,
+          targetY: item.y,
+          targetZ,
+          spotDiameter: item.spotDiameter ?? fixture.spotDiameter
+        }, state.fixtureTypes, fixture);
       })
-      .filter(item => item !== null) as Array<{ fixture: number; pan: number; tilt: number }>;
-    
-    if (items.length === 0) return;
-    
-    // Send batch command to API if connected
-    if (state.apiClient) {
-      state.apiClient.sendPanTiltBatch(items);
+      .filter((f): f is Fixture => f !== null);
+
+    if (aimed.length === 0) return;
+
+    // One batch command, so the heads all set off together
+    if (state.outputBackend) {
+      state.outputBackend.sendPanTiltBatch(aimed.map(f => ({ fixture: f.id, pan: f.pan, tilt: f.tilt })));
     }
-    
-    // Update local state
+    sendSpotLens(aimed, state.outputBackend);
+
     set(state => ({
-      fixtures: state.fixtures.map(f => {
-        const item = items.find(i => i.fixture === f.id);
-        return item ? { ...f, pan: item.pan, tilt: item.tilt, targetX: x, targetY: y } : f;
-      }),
-      targetPoint: { x, y }
+      fixtures: state.fixtures.map(f => aimed.find(a => a.id === f.id) ?? f)
+    }));
+  },
+
+  setSpotDiameter: (fixtureIds, spotDiameter) => {
+    const state = get();
+    const fitted = state.fixtures
+      .filter(f => fixtureIds.includes(f.id))
+      .map(f => fitSpotSize({ ...f, spotDiameter: spotDiameter ?? undefined }, getFixtureType(state.fixtureTypes, f)));
+    sendSpotLens(fitted, state.outputBackend);
+
+    set(state => ({
+      fixtures: state.fixtures.map(f => fitted.find(a => a.id === f.id) ?? f)
     }));
   },
 
   updateDimmer: (fixtureIds, dimmer) => {
-    // Send dimmer command to API if connected
-    if (get().apiClient) {
-      get().apiClient.sendDimmer(fixtureIds, dimmer);
+    // Send dimmer command to the output backend if connected
+    if (get().outputBackend) {
+      get().outputBackend.sendDimmer(fixtureIds, dimmer);
     }
     
     set(state => ({
@@ -239,9 +592,9 @@ export const useLightingStore = create<LightingStore>()(
   },
 
   updateColor: (fixtureIds, r, g, b) => {
-    // Send color command to API if connected
-    if (get().apiClient) {
-      get().apiClient.sendColor(fixtureIds, r, g, b);
+    // Send color command to the output backend if connected
+    if (get().outputBackend) {
+      get().outputBackend.sendColor(fixtureIds, r, g, b);
     }
     
     set(state => ({
@@ -252,9 +605,9 @@ export const useLightingStore = create<LightingStore>()(
   },
 
   updateGobo: (fixtureIds, gobo) => {
-    // Send gobo command to API if connected
-    if (get().apiClient) {
-      get().apiClient.sendGobo(fixtureIds, gobo);
+    // Send gobo command to the output backend if connected
+    if (get().outputBackend) {
+      get().outputBackend.sendGobo(fixtureIds, gobo);
     }
     
     set(state => ({
@@ -265,9 +618,9 @@ export const useLightingStore = create<LightingStore>()(
   },
 
   updateIris: (fixtureIds, iris) => {
-    // Send iris command to API if connected
-    if (get().apiClient) {
-      get().apiClient.sendIris(fixtureIds, iris);
+    // Send iris command to the output backend if connected
+    if (get().outputBackend) {
+      get().outputBackend.sendIris(fixtureIds, iris);
     }
     
     set(state => ({
@@ -278,9 +631,9 @@ export const useLightingStore = create<LightingStore>()(
   },
 
   updateFocus: (fixtureIds, focus) => {
-    // Send focus command to API if connected
-    if (get().apiClient) {
-      get().apiClient.sendFocus(fixtureIds, focus);
+    // Send focus command to the output backend if connected
+    if (get().outputBackend) {
+      get().outputBackend.sendFocus(fixtureIds, focus);
     }
     
     set(state => ({
@@ -291,22 +644,23 @@ export const useLightingStore = create<LightingStore>()(
   },
 
   updateZoom: (fixtureIds, zoom) => {
-    // Send zoom command to API if connected
-    if (get().apiClient) {
-      get().apiClient.sendZoom(fixtureIds, zoom);
+    // Send zoom command to the output backend if connected
+    if (get().outputBackend) {
+      get().outputBackend.sendZoom(fixtureIds, zoom);
     }
     
+    // Setting the zoom by hand takes it off the spot size
     set(state => ({
       fixtures: state.fixtures.map(f => 
-        fixtureIds.includes(f.id) ? { ...f, zoom } : f
+        fixtureIds.includes(f.id) ? { ...f, zoom, spotDiameter: undefined } : f
       )
     }));
   },
 
   updateFrost: (fixtureIds, frost) => {
-    // Send frost command to API if connected
-    if (get().apiClient) {
-      get().apiClient.sendFrost(fixtureIds, frost);
+    // Send frost command to the output backend if connected
+    if (get().outputBackend) {
+      get().outputBackend.sendFrost(fixtureIds, frost);
     }
     
     set(state => ({
@@ -319,10 +673,10 @@ export const useLightingStore = create<LightingStore>()(
   parkFixtures: async (fixtureIds) => {
     const state = get();
     
-    // Send park command to API if connected
-    if (state.apiClient) {
+    // Send park command to the output backend if it can park
+    if (state.outputBackend?.capabilities.park) {
       try {
-        await state.apiClient.parkFixtures(fixtureIds);
+        await state.outputBackend.parkFixtures(fixtureIds);
         // Update local state to mark fixtures as parked
         set(state => ({
           fixtures: state.fixtures.map(f => 
@@ -338,10 +692,10 @@ export const useLightingStore = create<LightingStore>()(
   unparkFixtures: async (fixtureIds) => {
     const state = get();
     
-    // Send unpark command to API if connected
-    if (state.apiClient) {
+    // Send unpark command to the output backend if it can park
+    if (state.outputBackend?.capabilities.park) {
       try {
-        await state.apiClient.unparkFixtures(fixtureIds);
+        await state.outputBackend.unparkFixtures(fixtureIds);
         // Update local state to mark fixtures as unparked
         set(state => ({
           fixtures: state.fixtures.map(f => 
@@ -374,17 +728,23 @@ export const useLightingStore = create<LightingStore>()(
     const preset = state.presets.find(p => p.id === presetId);
     if (!preset) return;
     
+    // Only fixtures that are still in the patch are recalled
+    const patched = preset.fixtures.filter(saved => state.fixtures.some(f => f.id === saved.id));
+
     // Update local state immediately
-    set({
-      fixtures: preset.fixtures.map(f => ({ ...f, isSelected: false, focus: f.focus || 50 }))
-    });
+    set(state => ({
+      fixtures: state.fixtures.map(f => {
+        const saved = patched.find(p => p.id === f.id);
+        return saved ? applyPresetFixture(f, saved) : f;
+      })
+    }));
 
-    // If API is not connected, just update local state
-    if (!state.apiClient) return;
+    // Without a backend that recalls presets, just update local state
+    if (!state.outputBackend?.capabilities.presetLoad) return;
 
     try {
       // Build items array for the preset/load endpoint
-      const items = preset.fixtures.map(fixture => ({
+      const items = patched.map(fixture => ({
         fixture: fixture.id,
         r: Math.round((fixture.color.r / 255) * 100),
         g: Math.round((fixture.color.g / 255) * 100),
@@ -399,7 +759,7 @@ export const useLightingStore = create<LightingStore>()(
       }));
 
       // Use the new preset/load endpoint with automatic sequencing and delays
-      await state.apiClient.loadPreset(items, 3.0);
+      await state.outputBackend.loadPreset(items, 3.0);
     } catch (error) {
       console.error('Error loading preset:', error);
     }
@@ -410,12 +770,19 @@ export const useLightingStore = create<LightingStore>()(
   })),
 
   updateApiConfig: (baseUrl, grandma2Host, grandma2Port) => set(state => ({
-    apiConfig: { baseUrl, grandma2Host, grandma2Port }
+    apiConfig: { ...state.apiConfig, baseUrl, grandma2Host, grandma2Port }
   })),
 
+  setOutputBackend: async (backend) => {
+    set(state => ({ apiConfig: { ...state.apiConfig, backend } }));
+    return get().initializeApi(get().apiConfig.baseUrl);
+  },
+
   setFloorPlan: (image, width, height) => set(state => ({
     floorPlan: {
       ...state.floorPlan,
+      // A different image needs registering again
+      ...(image !== state.floorPlan.image && { calibrationPoints: [], imageTransform: null }),
       image,
       width,
       height,
@@ -423,6 +790,10 @@ export const useLightingStore = create<LightingStore>()(
     }
   })),
 
+  setFloorPlanRegistration: (calibrationPoints, imageTransform) => set(state => ({
+    floorPlan: { ...state.floorPlan, calibrationPoints, imageTransform }
+  })),
+
   updateFloorPlanDimensions: (width, height) => set(state => ({
     floorPlan: {
       ...state.floorPlan,
@@ -432,70 +803,253 @@ export const useLightingStore = create<LightingStore>()(
     }
   })),
 
-  updateFixtureHeight: (height) => set(state => ({
-    fixtures: state.fixtures.map(f => ({ ...f, z: height }))
-  })),
-
   updateFixturePosition: (id, x, y) => set(state => ({
     fixtures: state.fixtures.map(f => 
       f.id === id ? { ...f, x, y } : f
     )
   })),
 
-  adjustFixtureSpacing: (spacing) => set(state => {
-    // Recalculate positions based on new spacing but maintain the centered layout
-    const newGaps = Array(5).fill(spacing);
-    const xCenter = ROOM_WIDTH_X / 2.0;
-    const totalSpan = newGaps.reduce((sum, gap) => sum + gap, 0);
-    const xLeft = xCenter - totalSpan / 2.0;
-    const newPositions = [xLeft];
-    for (const gap of newGaps) {
-      newPositions.push(newPositions[newPositions.length - 1] + gap);
+  addPosition: (position) => set(state => ({
+    positions: [...state.positions, { ...position, id: Date.now().toString() }]
+  })),
+
+  updatePosition: (id, updates) => {
+    const state = get();
+    const position = state.positions.find(p => p.id === id);
+    if (!position) return;
+
+    const updated = { ...position, ...updates, id };
+    const moved = state.fixtures
+      .filter(f => f.positionId === id)
+      .map(f => hangOnPosition(f, updated));
+    const aimed = reaimFixtures(moved, state.fixtureTypes, state.outputBackend);
+
+    set(state => ({
+      positions: state.positions.map(p => p.id === id ? updated : p),
+      fixtures: state.fixtures.map(f => aimed.find(a => a.id === f.id) ?? f)
+    }));
+  },
+
+  addObstacle: (obstacle) => set(state => ({
+    obstacles: [...state.obstacles, { ...obstacle, id: Date.now().toString() }]
+  })),
+
+  updateObstacle: (id, updates) => set(state => ({
+    obstacles: state.obstacles.map(o => o.id === id ? { ...o, ...updates } : o)
+  })),
+
+  deleteObstacle: (id) => set(state => ({
+    obstacles: state.obstacles.filter(o => o.id !== id)
+  })),
+
+  addHeightZone: (zone) => set(state => ({
+    heightZones: [...state.heightZones, { ...zone, id: Date.now().toString() }]
+  })),
+
+  updateHeightZone: (id, updates) => set(state => ({
+    heightZones: state.heightZones.map(z => z.id === id ? { ...z, ...updates } : z)
+  })),
+
+  deleteHeightZone: (id) => set(state => ({
+    heightZones: state.heightZones.filter(z => z.id !== id)
+  })),
+
+  deletePosition: (id) => set(state => ({
+    positions: state.positions.filter(p => p.id !== id),
+    // Fixtures stay where they are, just no longer attached
+    fixtures: state.fixtures.map(f =>
+      f.positionId === id ? { ...f, positionId: null } : f
+    )
+  })),
+
+  hangFixture: (fixtureId, positionId, offset) => {
+    const state = get();
+    const fixture = state.fixtures.find(f => f.id === fixtureId);
+    if (!fixture) return;
+
+    const position = state.positions.find(p => p.id === positionId);
+    if (!position) {
+      set(state => ({
+        fixtures: state.fixtures.map(f => f.id === fixtureId ? { ...f, positionId: null } : f)
+      }));
+      return;
     }
-    
+
+    // Without an offset the fixture goes to the nearest point on the position
+    const positionOffset = offset ?? projectOntoPosition(position, fixture.x, fixture.y);
+    const [aimed] = reaimFixtures(
+      [hangOnPosition({ ...fixture, positionOffset }, position)],
+      state.fixtureTypes,
+      state.outputBackend
+    );
+
+    set(state => ({
+      fixtures: state.fixtures.map(f => f.id === fixtureId ? aimed : f)
+    }));
+  },
+
+  distributeFixtures: (positionId, spacing) => {
+    const state = get();
+    const position = state.positions.find(p => p.id === positionId);
+    if (!position) return;
+
+    // Keep the fixtures' current order along the position
+    const hung = state.fixtures
+      .filter(f => f.positionId === positionId)
+      .sort((a, b) => (a.positionOffset ?? 0) - (b.positionOffset ?? 0));
+    const offsets = distributeOffsets(position, hung.length, spacing);
+    const aimed = reaimFixtures(
+      hung.map((f, i) => hangOnPosition({ ...f, positionOffset: offsets[i] }, position)),
+      state.fixtureTypes,
+      state.outputBackend
+    );
+
+    set(state => ({
+      fixtures: state.fixtures.map(f => aimed.find(a => a.id === f.id) ?? f)
+    }));
+  },
+
+  currentShow: null,
+
+  loadShow: (show, name, handle) => {
+    const previous = get().apiConfig;
+    set(state => ({
+      fixtures: show.fixtures.map(f => ({ ...f, isSelected: false })),
+      // The type library is shared by all rooms: the file adds or refreshes its own types
+      fixtureTypes: [
+        ...state.fixtureTypes.filter(t => t.builtIn || !show.fixtureTypes.some(f => f.id === t.id)),
+        ...show.fixtureTypes.filter(t => !builtInFixtureTypes.some(b => b.id === t.id))
+      ],
+      positions: show.positions,
+      obstacles: show.obstacles,
+      heightZones: show.heightZones,
+      groups: show.groups,
+      presets: show.presets,
+      floorPlan: show.floorPlan ?? state.floorPlan,
+      apiConfig: show.apiConfig,
+      selectedFixtures: [],
+      targetPoint: null,
+      currentShow: { name, handle }
+    }));
+
+    // A show for another room or console must not keep talking to the old one
+    const backendOf = (config: ApiConfig) => config.backend ?? DEFAULT_OUTPUT_BACKEND;
+    if (show.apiConfig.baseUrl !== previous.baseUrl || backendOf(show.apiConfig) !== backendOf(previous)) {
+      get().initializeApi(show.apiConfig.baseUrl);
+    }
+  },
+
+  setCurrentShow: (name, handle) => set({ currentShow: { name, handle } }),
+
+  addRoom: (name) => {
+    const id = Date.now().toString();
+    set(state => ({
+      rooms: [...state.rooms, {
+        id,
+        name,
+        floorPlan: { ...defaultFloorPlan, image: null },
+        fixtures: [],
+        positions: [],
+        obstacles: [],
+        heightZones: [],
+        groups: [],
+        presets: [],
+        apiConfig: { ...state.apiConfig }
+      }]
+    }));
+    get().switchRoom(id);
+  },
+
+  renameRoom: (id, name) => set(state => ({
+    rooms: state.rooms.map(r => r.id === id ? { ...r, name } : r)
+  })),
+
+  deleteRoom: (id) => {
+    const state = get();
+    if (state.rooms.length <= 1) return;
+
+    if (id === state.activeRoomId) {
+      get().switchRoom(state.rooms.find(r => r.id !== id)!.id);
+    }
+
+    get().roomSessions[id]?.outputBackend?.disconnect();
+    set(state => {
+      const { [id]: _removed, ...roomSessions } = state.roomSessions;
+      return {
+        rooms: state.rooms.filter(r => r.id !== id),
+        roomSessions
+      };
+    });
+  },
+
+  switchRoom: (id) => set(state => {
+    const room = state.rooms.find(r => r.id === id);
+    if (!room || id === state.activeRoomId) return {};
+
+    // Park the current room, connection included, and bring the other one forward
+    const { [id]: session, ...others } = state.roomSessions;
     return {
-      fixtures: state.fixtures.map((f, index) => ({
-        ...f, 
-        x: newPositions[index] || f.x
-      }))
+      ...roomState(room),
+      rooms: state.rooms.map(r =>
+        r.id === state.activeRoomId ? { ...r, ...roomSnapshot(state) } : r
+      ),
+      activeRoomId: id,
+      outputBackend: session?.outputBackend ?? null,
+      currentShow: session?.currentShow ?? null,
+      roomSessions: {
+        ...others,
+        [state.activeRoomId]: { outputBackend: state.outputBackend, currentShow: state.currentShow }
+      }
     };
   }),
 
   initializeApi: async (baseUrl: string) => {
-    const { apiClient } = get();
+    // Read before connecting: the room may be switched away while we wait
+    const { outputBackend, activeRoomId, apiConfig: roomConfig } = get();
     
-    // Disconnect existing client
-    if (apiClient) {
-      apiClient.disconnect();
+    // Disconnect this room's existing backend; other rooms keep theirs
+    if (outputBackend) {
+      outputBackend.disconnect();
     }
 
-    // Create new client
-    const newClient = new GrandMA2ApiClient(
-      baseUrl,
+    // Create the backend this room is set up for
+    const newBackend = createOutputBackend(
+      { ...roomConfig, baseUrl },
       (connected) => {
-        console.log(`GrandMA2 API connection: ${connected ? 'connected' : 'disconnected'}`);
+        console.log(`Output connection: ${connected ? 'connected' : 'disconnected'}`);
       },
       (message) => {
-        console.log(`GrandMA2 API log: ${message}`);
-      }
+        console.log(`Output log: ${message}`);
+      },
+      outputBackend
     );
 
-    // Try to connect - this will fetch the GrandMA2 config from /health
-    const connected = await newClient.connect();
+    // Try to connect - the HTTP bridge fetches the GrandMA2 config from /health
+    const connected = await newBackend.connect();
     
     if (connected) {
-      // Get the GrandMA2 config from the API
-      const grandma2Config = newClient.getGrandMA2Config();
+      // Keep the console the backend reached, if it reports one
+      const consoleConfig = newBackend.getConsoleConfig();
       
-      set((state) => ({
-        ...state,
-        apiClient: newClient,
-        apiConfig: { 
-          baseUrl, 
-          grandma2Host: grandma2Config.host, 
-          grandma2Port: grandma2Config.port 
+      const apiConfig: ApiConfig = {
+        ...roomConfig,
+        baseUrl,
+        ...(consoleConfig && { grandma2Host: consoleConfig.host, grandma2Port: consoleConfig.port })
+      };
+
+      set((state) => {
+        if (state.activeRoomId === activeRoomId) {
+          return { outputBackend: newBackend, apiConfig };
         }
-      }));
+        // The room was switched away while connecting
+        return {
+          rooms: state.rooms.map(r => r.id === activeRoomId ? { ...r, apiConfig } : r),
+          roomSessions: {
+            ...state.roomSessions,
+            [activeRoomId]: { currentShow: null, ...state.roomSessions[activeRoomId], outputBackend: newBackend }
+          }
+        };
+      });
     }
 
     return connected;
@@ -503,10 +1057,93 @@ export const useLightingStore = create<LightingStore>()(
     }),
     {
       name: 'lighting-store',
+      // A full localStorage mustn't make every set throw; the state just stops being saved
+      storage: createJSONStorage(() => ({
+        getItem: (name) => localStorage.getItem(name),
+        setItem: (name, value) => {
+          try {
+            localStorage.setItem(name, value);
+          } catch (error) {
+            console.error('Error saving lighting state:', error);
+          }
+        },
+        removeItem: (name) => localStorage.removeItem(name)
+      })),
       partialize: (state) => ({
-        presets: state.presets,
-        apiConfig: state.apiConfig,
+        fixtureTypes: state.fixtureTypes,
+        // The active room is saved from the live state
+        rooms: state.rooms.map(r =>
+          persistedRoom(r.id === state.activeRoomId ? { ...r, ...roomSnapshot(state) } : r)
+        ),
+        activeRoomId: state.activeRoomId,
+        targetHeight: state.targetHeight,
       }),
+      merge: (persisted, current) => {
+        const saved = persisted as Partial<LightingState>;
+        // Built-in types saved before they had photometrics or a focus curve pick them up from the shipped definitions
+        if (saved?.fixtureTypes) {
+          saved.fixtureTypes = saved.fixtureTypes.map(t => {
+            const shipped = t.builtIn ? builtInFixtureTypes.find(b => b.id === t.id) : undefined;
+            return shipped
+              ? { ...t, photometrics: t.photometrics ?? shipped.photometrics, focusCurve: t.focusCurve ?? shipped.focusCurve }
+              : t;
+          });
+        }
+        // Saved before rooms existed: the single rig becomes the first room
+        if (!saved?.rooms) return { ...current, ...saved };
+
+        const room = saved.rooms.find(r => r.id === saved.activeRoomId) ?? saved.rooms[0];
+        return { ...current, ...saved, ...roomState(room), activeRoomId: room.id };
+      },
     }
   )
-);
\ No newline at end of file
+);
+
+// Uploaded plan images of every room, the active one from the live state
+const planImages = (state: LightingState): Record<string, string> => {
+  const images: Record<string, string> = {};
+  state.rooms.forEach(r => {
+    const image = r.id === state.activeRoomId ? state.floorPlan.image : r.floorPlan.image;
+    if (isStoredPlanImage(image)) images[r.id] = image;
+  });
+  return images;
+};
+
+// Write plan images that changed, and drop those of rooms that lost theirs
+const savePlanImageChanges = async (previous: Record<string, string>, images: Record<string, string>) => {
+  const changes: Record<string, string | null> = {};
+  Object.entries(images).forEach(([id, image]) => {
+    if (previous[id] !== image) changes[id] = image;
+  });
+  Object.keys(previous).forEach(id => {
+    if (!(id in images)) changes[id] = null;
+  });
+  if (Object.keys(changes).length > 0) await savePlanImages(changes);
+};
+
+// Put stored plan images back on their rooms, then keep IndexedDB in step with the store
+if (typeof indexedDB !== 'undefined') {
+  loadPlanImages()
+    .then(async images => {
+      useLightingStore.setState(state => ({
+        floorPlan: !state.floorPlan.image && images[state.activeRoomId]
+          ? { ...state.floorPlan, image: images[state.activeRoomId] }
+          : state.floorPlan,
+        rooms: state.rooms.map(r => !r.floorPlan.image && images[r.id]
+          ? { ...r, floorPlan: { ...r.floorPlan, image: images[r.id] } }
+          : r)
+      }));
+      // Images still saved inline from before are moved over before localStorage lets go of them
+      const current = planImages(useLightingStore.getState());
+      await savePlanImageChanges(images, current);
+      storedPlanImages = current;
+
+      useLightingStore.subscribe(state => {
+        const previous = storedPlanImages ?? {};
+        storedPlanImages = planImages(state);
+        savePlanImageChanges(previous, storedPlanImages)
+          .catch(error => console.error('Error saving plan images:', error));
+      });
+    })
+    .catch(error => console.error('Error loading plan images:', error));
+}
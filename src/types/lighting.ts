@@ -1,8 +1,89 @@
+export type ColorSystem = 'rgb' | 'rgbw' | 'cmy' | 'wheel' | 'none';
+
+export interface GoboSlot {
+  index: number; // Gobo index sent to the console (0 = open)
+  name: string;
+}
+
+// Light output of a fixture type, for illuminance estimates
+// Give the flux, or the peak intensity when that's what the datasheet lists
+export interface Photometrics {
+  luminousFlux?: number; // Lumens out of the lens at full dimmer
+  peakIntensity?: number; // Candela on the beam axis at the narrowest beam angle
+  fieldAngleRatio?: number; // Field angle (10% of peak) over beam angle (50% of peak)
+}
+
+// Focus setting that gives a sharp edge at a throw distance
+export interface FocusPoint {
+  distance: number; // Throw in meters
+  focus: number; // 0-100%
+}
+
+export interface FixtureType {
+  id: string;
+  name: string;
+  manufacturer: string;
+  panRange: { min: number; max: number }; // Pan limits in degrees
+  tiltRange: { min: number; max: number }; // Tilt limits in degrees
+  zoomRange: { min: number; max: number }; // Beam angle in degrees at 0% and 100% zoom
+  features: {
+    iris: boolean;
+    frost: boolean;
+    gobo: boolean;
+    cmy: boolean;
+  };
+  colorSystem: ColorSystem;
+  gobos?: GoboSlot[]; // Gobo wheel slots, when known (e.g. from GDTF)
+  photometrics?: Photometrics;
+  focusCurve?: FocusPoint[]; // Sharp focus by throw distance, for automatic focus
+  builtIn?: boolean; // Shipped with the app, cannot be deleted
+}
+
+// Orientation of the fixture base, in degrees
+// Applied as roll (about Y), then pitch (about X), then yaw (about Z)
+// All zero = hung from above with the beam pointing down and 0° pan toward +Y
+export interface MountingOrientation {
+  yaw: number;
+  pitch: number;
+  roll: number;
+}
+
+// A truss, pipe or boom that fixtures hang on
+export interface RigPosition {
+  id: string;
+  name: string;
+  start: { x: number; y: number }; // Real world start point in meters
+  end: { x: number; y: number }; // Real world end point in meters
+  height: number; // Mounting height in meters
+  mounting: MountingOrientation; // Orientation of fixtures hung on it
+}
+
+// A column, partition or display case: its outline on the floor extruded up to its height
+export interface Obstacle {
+  id: string;
+  name: string;
+  points: { x: number; y: number }[]; // Outline in meters, in drawing order
+  height: number; // Top of the obstacle in meters
+}
+
+// A stage, plinth or platform; clicks inside it aim at its surface instead of the floor
+export interface HeightZone {
+  id: string;
+  name: string;
+  points: { x: number; y: number }[]; // Outline in meters, in drawing order
+  height: number; // Surface height in meters
+  luxLimit?: number; // Conservation limit for what's displayed here, in lux
+}
+
 export interface Fixture {
   id: number;
+  name?: string; // Label from the console patch, if imported
+  typeId: string; // References a FixtureType in the library
   x: number; // Real world X position in meters
   y: number; // Real world Y position in meters
   z: number; // Height in meters
+  positionId?: string | null; // RigPosition the fixture hangs on; x/y/z follow it
+  positionOffset?: number; // Distance along the position from its start, in meters
   pan: number; // Pan angle in degrees
   tilt: number; // Tilt angle in degrees
   dimmer: number; // 0-100%
@@ -16,28 +97,33 @@ export interface Fixture {
   iris: number; // Iris opening (0-100%)
   focus: number; // Focus (0-100%)
   frost: number; // Frost/diffusion (0-100%)
+  spotDiameter?: number; // Spot size to keep on the target in meters; zoom and focus follow the throw when set
   isSelected: boolean;
   isParked: boolean; // Whether fixture is locked/parked
   // Individual target point for this fixture
   targetX: number;
   targetY: number;
+  targetZ?: number; // Height aimed at in meters (0 = floor)
+  isClamped?: boolean; // The target was out of pan/tilt reach and the angles were limited
   // Calibration settings
-  panRange: { min: number; max: number };
-  tiltRange: { min: number; max: number };
+  mounting: MountingOrientation;
   panOffset: number;
   tiltOffset: number;
   panInverted: boolean;
   tiltInverted: boolean;
+  preferNoFlip?: boolean; // Avoid pan±180/tilt-mirrored solutions that sweep the beam across the room
 }
 
 export interface FloorPlan {
   image: string | null; // Base64 image data
   width: number; // Real world width in meters
   height: number; // Real world height in meters
-  calibrationPoints: CalibrationPoint[];
+  calibrationPoints: CalibrationPoint[]; // Reference points the image transform was solved from
+  imageTransform?: ImageTransform | null; // Registered placement of the image; stretched over the room when absent
   pixelsPerMeter: number;
 }
 
+// A point on the plan image (natural image pixels, Y down) and its real position in meters
 export interface CalibrationPoint {
   pixelX: number;
   pixelY: number;
@@ -45,6 +131,20 @@ export interface CalibrationPoint {
   realY: number;
 }
 
+// Similarity transform from image pixels to real meters
+export interface ImageTransform {
+  offsetX: number; // Real position of the image's top-left pixel, in meters
+  offsetY: number;
+  scale: number; // Meters per image pixel
+  rotation: number; // Degrees, counter-clockwise
+}
+
+export interface FixtureGroup {
+  id: string;
+  name: string;
+  fixtureIds: number[]; // Selection order - drives fanning and chases
+}
+
 export interface Preset {
   id: string;
   name: string;
@@ -53,7 +153,11 @@ export interface Preset {
   fixtures: Omit<Fixture, 'isSelected'>[];
 }
 
+// Where a room's fixture commands go
+export type OutputBackendKind = 'http-bridge' | 'simulator';
+
 export interface ApiConfig {
+  backend?: OutputBackendKind; // Where commands go; the HTTP bridge when absent
   baseUrl: string;
   grandma2Host: string;
   grandma2Port: number;
@@ -61,12 +165,35 @@ export interface ApiConfig {
   password?: string;
 }
 
+// A venue or gallery with its own plan, rig, presets and console endpoint
+// The active room lives in the top-level state; the others are kept here
+export interface Room {
+  id: string;
+  name: string;
+  floorPlan: FloorPlan;
+  fixtures: Fixture[];
+  positions: RigPosition[];
+  obstacles: Obstacle[];
+  heightZones: HeightZone[];
+  groups: FixtureGroup[];
+  presets: Preset[];
+  apiConfig: ApiConfig;
+}
+
 export interface LightingState {
   fixtures: Fixture[];
+  fixtureTypes: FixtureType[];
+  positions: RigPosition[];
+  obstacles: Obstacle[];
+  heightZones: HeightZone[];
   floorPlan: FloorPlan;
   selectedFixtures: number[];
+  groups: FixtureGroup[];
   presets: Preset[];
   apiConfig: ApiConfig;
-  targetPoint: { x: number; y: number } | null;
+  targetPoint: { x: number; y: number; z: number } | null;
+  targetHeight: number; // Height in meters above the floor or raised surface that floor plan clicks aim at
   scale: number;
+  rooms: Room[];
+  activeRoomId: string;
 }
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { Fixture, FixtureType, Obstacle } from '../types/lighting';
+import { calculatePanTilt } from './geometry';
+import { findOccluder } from './obstacles';
+
+export type AimTarget = { x: number; y: number; z: number; spotDiameter?: number }; // Spot size in meters, when the target asks for one
+
+export interface TargetAssignment {
+  fixtureId: number;
+  targetIndex: number;
+}
+
+export interface AssignmentResult {
+  assignments: TargetAssignment[];
+  uncoveredTargets: number[]; // Indexes of targets no fixture could be sent to
+  idleFixtures: number[]; // Fixtures that can't reach any target and were left alone
+}
+
+// A degree off the surface normal counts as two degrees of head movement,
+// so a steeper, less raking angle wins over a slightly shorter move
+const INCIDENCE_WEIGHT = 2;
+
+// Cost of a pairing that can't be made; large enough that any feasible pairing beats it
+const INFEASIBLE = 1e9;
+
+/**
+ * Minimum-cost assignment of rows to columns (Hungarian algorithm, O(n³))
+ * Works on rectangular matrices; returns the column for each row, or -1 when there are more rows than columns
+ */
+export function solveAssignment(cost: number[][]): number[] {
+  const rows = cost.length;
+  const columns = rows > 0 ? cost[0].length : 0;
+  const n = Math.max(rows, columns);
+  if (n === 0) return [];
+
+  // Pad to square with zero-cost dummy rows/columns
+  const a = (i: number, j: number) => (i < rows && j < columns ? cost[i][j] : 0);
+
+  // Potentials and matching, 1-based as in the classic formulation
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(n + 1).fill(0);
+  const match = new Array(n + 1).fill(0); // match[column] = row
+  const way = new Array(n + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    match[0] = i;
+    let j0 = 0;
+    const minv = new Array(n + 1).fill(Infinity);
+    const used = new Array(n + 1).fill(false);
+    do {
+      used[j0] = true;
+      const i0 = match[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= n; j++) {
+        if (used[j]) continue;
+        const reduced = a(i0 - 1, j - 1) - u[i0] - v[j];
+        if (reduced < minv[j]) {
+          minv[j] = reduced;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= n; j++) {
+        if (used[j]) {
+          u[match[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (match[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      match[j0] = match[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const result = new Array(rows).fill(-1);
+  for (let j = 1; j <= n; j++) {
+    const row = match[j] - 1;
+    if (row >= 0 && row < rows && j - 1 < columns) result[row] = j - 1;
+  }
+  return result;
+}
+
+/**
+ * Decide which fixture lights which target
+ *
+ * Each pairing costs the pan/tilt travel from where the fixture points now plus the
+ * weighted angle of incidence on the target surface. Pairings the fixture can't reach,
+ * or can't see past an obstacle, are ruled out. Targets are shared out one fixture each
+ * first; spare fixtures are then handed out the same way, so targets get a second light.
+ */
+export function assignFixturesToTargets(
+  fixtures: Fixture[],
+  typeOf: (fixture: Fixture) => FixtureType,
+  targets: AimTarget[],
+  obstacles: Obstacle[] = []
+): AssignmentResult {
+  // Cost of every fixture/target pair
+  const costs = fixtures.map(fixture => targets.map(target => {
+    const solution = calculatePanTilt(fixture, typeOf(fixture), target.x, target.y, target.z);
+    if (solution.clamped || findOccluder(fixture, obstacles, target.x, target.y, target.z)) {
+      return INFEASIBLE;
+    }
+    const travel = Math.abs(solution.pan - fixture.pan) + Math.abs(solution.tilt - fixture.tilt);
+    const distance = Math.hypot(target.x - fixture.x, target.y - fixture.y, target.z - fixture.z);
+    const incidence = Math.acos(Math.max(-1, Math.min(1, (fixture.z - target.z) / (distance || 1)))) * (180 / Math.PI);
+    return travel + INCIDENCE_WEIGHT * incidence;
+  }));
+
+  const assignments: TargetAssignment[] = [];
+  let remaining = fixtures.map((_, index) => index);
+
+  while (remaining.length > 0 && targets.length > 0) {
+    const columns = solveAssignment(remaining.map(i => costs[i]));
+    const round = remaining
+      .map((fixtureIndex, row) => ({ fixtureIndex, targetIndex: columns[row] }))
+      .filter(p => p.targetIndex >= 0 && costs[p.fixtureIndex][p.targetIndex] < INFEASIBLE);
+    if (round.length === 0) break;
+
+    round.forEach(({ fixtureIndex, targetIndex }) => {
+      assignments.push({ fixtureId: fixtures[fixtureIndex].id, targetIndex });
+    });
+    remaining = remaining.filter(i => !round.some(p => p.fixtureIndex === i));
+  }
+
+  return {
+    assignments,
+    uncoveredTargets: targets.map((_, index) => index).filter(index => !assignments.some(a => a.targetIndex === index)),
+    idleFixtures: remaining.map(i => fixtures[i].id)
+  };
+}
@@ -0,0 +1,198 @@
+import { Fixture } from '../types/lighting';
+import { beamDirection, calculateBeamLanding } from './geometry';
+
+// A floor mark the fixture was aimed at by hand, with the pan/tilt it took
+export interface AimReference {
+  x: number; // Mark position in meters
+  y: number;
+  pan: number; // Console pan/tilt in degrees when the beam sat on the mark
+  tilt: number;
+}
+
+export interface CalibrationResult {
+  x: number;
+  y: number;
+  z: number;
+  panOffset: number;
+  tiltOffset: number;
+  panInverted: boolean;
+  tiltInverted: boolean;
+  // Per mark: how far the recorded pan/tilt lands from the mark with the fitted values
+  residuals: { distance: number; angle: number }[]; // meters, degrees
+  rmsAngle: number; // Root mean square angular error in degrees
+}
+
+export const MIN_CALIBRATION_MARKS = 3;
+export const MAX_CALIBRATION_MARKS = 6;
+
+type Params = [number, number, number, number, number]; // x, y, z, panOffset, tiltOffset
+
+const DEG = Math.PI / 180;
+
+const withParams = (fixture: Fixture, p: Params, panInverted: boolean, tiltInverted: boolean): Fixture => ({
+  ...fixture,
+  x: p[0],
+  y: p[1],
+  z: p[2],
+  panOffset: p[3],
+  tiltOffset: p[4],
+  panInverted,
+  tiltInverted
+});
+
+// Difference between the beam direction for each recorded pan/tilt and the direction to its mark
+function residualVector(fixture: Fixture, marks: AimReference[]): number[] {
+  return marks.flatMap(mark => {
+    const beam = beamDirection(fixture, mark.pan, mark.tilt);
+    const dx = mark.x - fixture.x;
+    const dy = mark.y - fixture.y;
+    const dz = -fixture.z;
+    const length = Math.hypot(dx, dy, dz) || 1;
+    return [beam.x - dx / length, beam.y - dy / length, beam.z - dz / length];
+  });
+}
+
+const sumOfSquares = (values: number[]) => values.reduce((sum, v) => sum + v * v, 0);
+
+// Solve A·x = b for a small square system (Gaussian elimination with partial pivoting)
+function solveLinear(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+/**
+ * Levenberg-Marquardt fit of position and offsets for one inversion combination
+ * The Jacobian is taken numerically
+ */
+function fitParams(
+  fixture: Fixture,
+  marks: AimReference[],
+  start: Params,
+  panInverted: boolean,
+  tiltInverted: boolean
+): { params: Params; cost: number } {
+  let params = [...start] as Params;
+  let residuals = residualVector(withParams(fixture, params, panInverted, tiltInverted), marks);
+  let cost = sumOfSquares(residuals);
+  let lambda = 1e-3;
+
+  for (let iteration = 0; iteration < 200 && cost > 1e-14; iteration++) {
+    // Numeric Jacobian (rows: residuals, columns: parameters)
+    const jacobian = params.map((_, j) => {
+      const step = j < 3 ? 1e-5 : 1e-4;
+      const shifted = [...params] as Params;
+      shifted[j] += step;
+      const r = residualVector(withParams(fixture, shifted, panInverted, tiltInverted), marks);
+      return r.map((value, i) => (value - residuals[i]) / step);
+    });
+
+    // Normal equations: (JᵀJ + λ·diag(JᵀJ))·δ = -Jᵀr
+    const jtj = params.map((_, a) => params.map((_, b) =>
+      jacobian[a].reduce((sum, value, i) => sum + value * jacobian[b][i], 0)
+    ));
+    const jtr = params.map((_, a) => jacobian[a].reduce((sum, value, i) => sum + value * residuals[i], 0));
+
+    let improved = false;
+    while (lambda < 1e10) {
+      const damped = jtj.map((row, a) => row.map((value, b) => a === b ? value * (1 + lambda) + 1e-12 : value));
+      const delta = solveLinear(damped, jtr.map(v => -v));
+      if (!delta) break;
+
+      const candidate = params.map((value, j) => value + delta[j]) as Params;
+      const candidateResiduals = residualVector(withParams(fixture, candidate, panInverted, tiltInverted), marks);
+      const candidateCost = sumOfSquares(candidateResiduals);
+      if (candidateCost < cost) {
+        params = candidate;
+        residuals = candidateResiduals;
+        improved = cost - candidateCost > 1e-16;
+        cost = candidateCost;
+        lambda = Math.max(lambda / 10, 1e-9);
+        break;
+      }
+      lambda *= 10;
+    }
+    if (!improved) break;
+  }
+
+  return { params, cost };
+}
+
+// Wrap an offset to (-180, 180]
+const wrapDegrees = (degrees: number) => {
+  const wrapped = ((degrees + 180) % 360 + 360) % 360 - 180;
+  return wrapped === -180 ? 180 : wrapped;
+};
+
+/**
+ * Fit a fixture's position, pan/tilt offsets and pan inversion to hand-aimed floor marks
+ * The fixture's mounting orientation is kept; its current position is the starting guess
+ * Tilt inversion is kept too: flipping it aims exactly like turning the pan offset by 180°,
+ * so the marks can't tell the two apart
+ */
+export function solveFixtureCalibration(fixture: Fixture, marks: AimReference[]): CalibrationResult {
+  if (marks.length < MIN_CALIBRATION_MARKS) {
+    throw new Error(`Record at least ${MIN_CALIBRATION_MARKS} marks`);
+  }
+
+  // Offsets can be far from zero, so try a few starting values for each pan direction
+  const height = fixture.z > 0.5 ? fixture.z : 5;
+  const tiltInverted = fixture.tiltInverted;
+  let best: { params: Params; cost: number; panInverted: boolean } | null = null;
+  for (const panInverted of [false, true]) {
+    for (const panStart of [0, 90, 180, -90]) {
+      const fit = fitParams(
+        fixture,
+        marks,
+        [fixture.x, fixture.y, height, panStart, 0],
+        panInverted,
+        tiltInverted
+      );
+      if (!best || fit.cost < best.cost) {
+        best = { ...fit, panInverted };
+      }
+    }
+  }
+
+  const fitted = withParams(fixture, best!.params, best!.panInverted, tiltInverted);
+  const residuals = marks.map(mark => {
+    const landing = calculateBeamLanding(fitted, 0, mark.pan, mark.tilt);
+    const beam = beamDirection(fitted, mark.pan, mark.tilt);
+    const toMark = { x: mark.x - fitted.x, y: mark.y - fitted.y, z: -fitted.z };
+    const cos = (beam.x * toMark.x + beam.y * toMark.y + beam.z * toMark.z) / (Math.hypot(toMark.x, toMark.y, toMark.z) || 1);
+    return {
+      distance: landing ? Math.hypot(landing.x - mark.x, landing.y - mark.y) : Infinity,
+      angle: Math.acos(Math.max(-1, Math.min(1, cos))) / DEG
+    };
+  });
+
+  return {
+    x: fitted.x,
+    y: fitted.y,
+    z: fitted.z,
+    panOffset: wrapDegrees(fitted.panOffset),
+    tiltOffset: wrapDegrees(fitted.tiltOffset),
+    panInverted: fitted.panInverted,
+    tiltInverted: fitted.tiltInverted,
+    residuals,
+    rmsAngle: Math.sqrt(residuals.reduce((sum, r) => sum + r.angle * r.angle, 0) / residuals.length)
+  };
+}
@@ -0,0 +1,321 @@
+import { OutputBackendKind } from '../types/lighting';
+import { GrandMA2ApiClient } from './grandma2-api';
+
+// Address the simulated bridge answers on; .invalid never resolves, so nothing leaves the browser
+export const SIMULATOR_URL = 'http://simulator.invalid';
+
+// Typical moving head speeds, in degrees per second
+const PAN_SPEED = 225;
+const TILT_SPEED = 150;
+
+// How long a request hangs before a simulated timeout fails it, in ms
+const TIMEOUT_MS = 5000;
+
+// Requests kept for the Setup panel
+const REQUEST_HISTORY = 20;
+
+// Failure every request gets until it's switched off: none, a timeout, or an ok:false reply
+export type SimulatorFault = 'none' | 'timeout' | 'error';
+
+// A fixture as the simulated console has it right now
+export interface SimulatedFixture {
+  id: number;
+  pan: number; // Where the head is, part way through a move
+  tilt: number;
+  targetPan: number;
+  targetTilt: number;
+  moving: boolean;
+  dimmer: number; // 0-100%
+  r: number; // 0-100 per channel, as the bridge takes colour
+  g: number;
+  b: number;
+  iris: number;
+  focus: number;
+  zoom: number;
+  frost: number;
+  parked: boolean;
+}
+
+export interface SimulatorRequest {
+  time: number; // Date.now() when it was answered
+  path: string;
+  outcome: 'ok' | 'rejected' | 'error' | 'timeout';
+}
+
+type Attribute = 'dimmer' | 'r' | 'g' | 'b' | 'iris' | 'focus' | 'zoom' | 'frost';
+
+interface FixtureState extends Record<Attribute, number> {
+  id: number;
+  parked: boolean;
+  move: { fromPan: number; fromTilt: number; toPan: number; toTilt: number; start: number; duration: number };
+}
+
+type Reply = { status: number; body: Record<string, unknown> };
+
+const ok = (): Reply => ({ status: 200, body: { ok: true } });
+const rejected = (error: string, status: number = 422): Reply => ({ status, body: { ok: false, error } });
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Preset recall order used by the bridge, one step per delay
+const PRESET_STEPS: { keys: string[]; apply: (state: FixtureState, item: Record<string, number>) => void }[] = [
+  { keys: ['r', 'g', 'b'], apply: (state, item) => setAttributes(state, item, ['r', 'g', 'b']) },
+  { keys: ['iris', 'focus', 'zoom', 'frost'], apply: (state, item) => setAttributes(state, item, ['iris', 'focus', 'zoom', 'frost']) },
+  { keys: ['pan', 'tilt'], apply: (state, item) => startMove(state, item.pan, item.tilt, Date.now()) },
+  { keys: ['dim'], apply: (state, item) => setAttributes(state, { dimmer: item.dim }, ['dimmer']) }
+];
+
+function setAttributes(state: FixtureState, values: Record<string, number>, attributes: Attribute[]) {
+  attributes.forEach(attribute => {
+    if (typeof values[attribute] === 'number') state[attribute] = values[attribute];
+  });
+}
+
+// Pan and tilt at a moment, both axes arriving together as a console moves them
+function headPosition(state: FixtureState, now: number): { pan: number; tilt: number } {
+  const { fromPan, fromTilt, toPan, toTilt, start, duration } = state.move;
+  const t = duration > 0 ? Math.min(1, Math.max(0, (now - start) / duration)) : 1;
+  return { pan: fromPan + (toPan - fromPan) * t, tilt: fromTilt + (toTilt - fromTilt) * t };
+}
+
+function startMove(state: FixtureState, pan: number | undefined, tilt: number | undefined, now: number) {
+  const current = headPosition(state, now);
+  const toPan = typeof pan === 'number' ? pan : state.move.toPan;
+  const toTilt = typeof tilt === 'number' ? tilt : state.move.toTilt;
+  const duration = Math.max(Math.abs(toPan - current.pan) / PAN_SPEED, Math.abs(toTilt - current.tilt) / TILT_SPEED) * 1000;
+  state.move = { fromPan: current.pan, fromTilt: current.tilt, toPan, toTilt, start: now, duration };
+}
+
+/**
+ * In-browser stand-in for the GrandMA2 bridge and the console behind it
+ * Serves the bridge's endpoints from memory, moving heads at a finite speed and
+ * stepping through preset recalls with the requested delay
+ */
+export class ConsoleSimulator {
+  latency = 20; // ms before each reply
+  fault: SimulatorFault = 'none';
+
+  private fixtures = new Map<number, FixtureState>();
+  private requests: SimulatorRequest[] = [];
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private generation = 0; // Bumped on cancel, so requests still waiting on latency are dropped
+
+  /**
+   * Answer a request as the bridge would; used in place of fetch
+   */
+  fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const path = new URL(String(input), SIMULATOR_URL).pathname;
+    const generation = this.generation;
+    await wait(this.latency);
+
+    if (this.fault === 'timeout') {
+      await wait(TIMEOUT_MS);
+      this.record(path, 'timeout');
+      throw new TypeError('Failed to fetch (simulated timeout)');
+    }
+    if (generation !== this.generation) {
+      throw new TypeError('Failed to fetch (simulator disconnected)');
+    }
+
+    let reply: Reply;
+    if (this.fault === 'error') {
+      reply = { status: 200, body: { ok: false, status: 'error', error: 'Simulated console failure' } };
+    } else {
+      try {
+        reply = this.handle(path, init?.body ? JSON.parse(String(init.body)) : {});
+      } catch {
+        reply = rejected('Invalid JSON body', 400);
+      }
+    }
+
+    this.record(path, this.fault === 'error' ? 'error' : reply.body.ok === false ? 'rejected' : 'ok');
+    return new Response(JSON.stringify(reply.body), {
+      status: reply.status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  };
+
+  /**
+   * Every fixture the console has been sent, as it is now
+   */
+  snapshot(): SimulatedFixture[] {
+    const now = Date.now();
+    return [...this.fixtures.values()]
+      .sort((a, b) => a.id - b.id)
+      .map(state => {
+        const { pan, tilt } = headPosition(state, now);
+        return {
+          id: state.id,
+          pan,
+          tilt,
+          targetPan: state.move.toPan,
+          targetTilt: state.move.toTilt,
+          moving: now < state.move.start + state.move.duration,
+          dimmer: state.dimmer,
+          r: state.r,
+          g: state.g,
+          b: state.b,
+          iris: state.iris,
+          focus: state.focus,
+          zoom: state.zoom,
+          frost: state.frost,
+          parked: state.parked
+        };
+      });
+  }
+
+  /**
+   * Latest requests first
+   */
+  recentRequests(): SimulatorRequest[] {
+    return [...this.requests].reverse();
+  }
+
+  /**
+   * Cancel preset steps still to run and drop requests that haven't been answered yet
+   * Heads already moving finish their move, as they would on a console
+   */
+  cancelPending(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers = [];
+    this.generation += 1;
+  }
+
+  /**
+   * Forget all fixture state and cancel preset steps still to run
+   */
+  reset(): void {
+    this.cancelPending();
+    this.fixtures.clear();
+    this.requests = [];
+  }
+
+  private handle(path: string, body: Record<string, unknown>): Reply {
+    const now = Date.now();
+    const items = Array.isArray(body.items) ? (body.items as Record<string, number>[]) : null;
+
+    switch (path) {
+      case '/health':
+        return { status: 200, body: { status: 'ok', host: 'simulator', port: 30000 } };
+
+      case '/move/fixture':
+        if (typeof body.fixture !== 'number') return rejected('fixture is required');
+        this.unlessParked(body.fixture, state => startMove(state, body.pan as number, body.tilt as number, now));
+        return ok();
+
+      case '/move/group':
+        if (!items) return rejected('items must be a list');
+        items.forEach(item => this.unlessParked(item.fixture, state => startMove(state, item.pan, item.tilt, now)));
+        return ok();
+
+      case '/dim':
+      case '/iris':
+      case '/focus':
+      case '/zoom':
+      case '/frost': {
+        if (!items) return rejected('items must be a list');
+        const attribute = (path === '/dim' ? 'dimmer' : path.slice(1)) as Attribute;
+        items.forEach(item => this.unlessParked(item.fixture, state => setAttributes(state, { [attribute]: item.value }, [attribute])));
+        return ok();
+      }
+
+      case '/color':
+        if (!items) return rejected('items must be a list');
+        items.forEach(item => this.unlessParked(item.fixture, state => setAttributes(state, item, ['r', 'g', 'b'])));
+        return ok();
+
+      case '/preset/load': {
+        if (!items) return rejected('items must be a list');
+        const delay = typeof body.delay === 'number' ? Math.max(0, body.delay) : 3.0;
+        PRESET_STEPS.forEach((step, index) => {
+          const run = () => items.forEach(item => {
+            if (step.keys.some(key => typeof item[key] === 'number')) {
+              this.unlessParked(item.fixture, state => step.apply(state, item));
+            }
+          });
+          if (index === 0) {
+            run();
+            return;
+          }
+          const timer = setTimeout(() => {
+            this.timers = this.timers.filter(t => t !== timer);
+            run();
+          }, index * delay * 1000);
+          this.timers.push(timer);
+        });
+        return ok();
+      }
+
+      case '/park':
+      case '/unpark': {
+        if (!Array.isArray(body.fixtures)) return rejected('fixtures must be a list');
+        (body.fixtures as number[]).forEach(id => {
+          this.fixture(id).parked = path === '/park';
+        });
+        return ok();
+      }
+
+      default:
+        return rejected(`Unknown endpoint ${path}`, 404);
+    }
+  }
+
+  // Parked fixtures hold their output; the console accepts the command and ignores it
+  private unlessParked(id: number, change: (state: FixtureState) => void) {
+    if (typeof id !== 'number') return;
+    const state = this.fixture(id);
+    if (!state.parked) change(state);
+  }
+
+  // Fixtures appear the first time they're addressed, homed and dark
+  private fixture(id: number): FixtureState {
+    let state = this.fixtures.get(id);
+    if (!state) {
+      state = {
+        id,
+        parked: false,
+        dimmer: 0,
+        r: 100,
+        g: 100,
+        b: 100,
+        iris: 100,
+        focus: 50,
+        zoom: 50,
+        frost: 0,
+        move: { fromPan: 0, fromTilt: 0, toPan: 0, toTilt: 0, start: 0, duration: 0 }
+      };
+      this.fixtures.set(id, state);
+    }
+    return state;
+  }
+
+  private record(path: string, outcome: SimulatorRequest['outcome']) {
+    this.requests = [...this.requests, { time: Date.now(), path, outcome }].slice(-REQUEST_HISTORY);
+  }
+}
+
+/**
+ * Output backend that talks to an in-browser simulated console through the bridge client
+ */
+export class SimulatorBackend extends GrandMA2ApiClient {
+  readonly kind: OutputBackendKind = 'simulator';
+
+  constructor(
+    readonly simulator: ConsoleSimulator = new ConsoleSimulator(),
+    onConnectionChange?: (connected: boolean) => void,
+    onLog?: (message: string) => void
+  ) {
+    super(SIMULATOR_URL, onConnectionChange, onLog, simulator.fetch);
+  }
+
+  // There's no real console behind it, so the room keeps its configured one
+  getConsoleConfig(): null {
+    return null;
+  }
+
+  // Nothing sent before a disconnect may land after it
+  disconnect(): void {
+    this.simulator.cancelPending();
+    super.disconnect();
+  }
+}
@@ -0,0 +1,73 @@
+type Point = { x: number; y: number };
+
+export type FanShapeKind = 'line' | 'arc' | 'grid';
+
+// A shape dragged on the plan: a line, an arc over the start-end chord, or a rectangle by its corners
+export interface FanShape {
+  kind: FanShapeKind;
+  start: Point;
+  end: Point;
+  bend: number; // Arc sweep in degrees, positive bulges to the left of start → end
+}
+
+/**
+ * Centre and radius of an arc's circle, or null when the arc is flat
+ */
+export function arcCircle(shape: FanShape): { center: Point; radius: number; startAngle: number; sweep: number } | null {
+  const dx = shape.end.x - shape.start.x;
+  const dy = shape.end.y - shape.start.y;
+  const chord = Math.hypot(dx, dy);
+  // Bulging left of the travel direction means turning clockwise around the centre
+  const sweep = -Math.max(-359, Math.min(359, shape.bend)) * (Math.PI / 180);
+  if (chord < 1e-9 || Math.abs(sweep) < 1e-6) return null;
+
+  const radius = chord / (2 * Math.sin(Math.abs(sweep) / 2));
+  // Centre sits on the chord's perpendicular bisector, on the side away from the bulge
+  const offset = (chord / 2) / Math.tan(sweep / 2);
+  const center = {
+    x: (shape.start.x + shape.end.x) / 2 - (dy / chord) * offset,
+    y: (shape.start.y + shape.end.y) / 2 + (dx / chord) * offset
+  };
+  const startAngle = Math.atan2(shape.start.y - center.y, shape.start.x - center.x);
+  return { center, radius, startAngle, sweep };
+}
+
+/**
+ * One evenly spaced target per fixture along or over a shape, in order
+ */
+export function fanTargets(shape: FanShape, count: number): Point[] {
+  if (count <= 0) return [];
+  const { start, end } = shape;
+  const lerp = (t: number) => ({ x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t });
+  // With one fixture every shape collapses to its middle
+  const along = (index: number) => (count === 1 ? 0.5 : index / (count - 1));
+
+  if (shape.kind === 'grid') {
+    const width = Math.abs(end.x - start.x);
+    const height = Math.abs(end.y - start.y);
+    // Columns and rows in proportion to the rectangle, filled row by row from the start corner
+    const columns = Math.max(1, Math.min(count, Math.round(Math.sqrt((count * width) / (height || 1e-9))) || 1));
+    const rows = Math.ceil(count / columns);
+    return Array.from({ length: count }, (_, index) => {
+      const column = index % columns;
+      const row = Math.floor(index / columns);
+      return {
+        x: start.x + ((end.x - start.x) * (column + 0.5)) / columns,
+        y: start.y + ((end.y - start.y) * (row + 0.5)) / rows
+      };
+    });
+  }
+
+  const circle = shape.kind === 'arc' ? arcCircle(shape) : null;
+  if (!circle) {
+    return Array.from({ length: count }, (_, index) => lerp(along(index)));
+  }
+
+  return Array.from({ length: count }, (_, index) => {
+    const angle = circle.startAngle + circle.sweep * along(index);
+    return {
+      x: circle.center.x + circle.radius * Math.cos(angle),
+      y: circle.center.y + circle.radius * Math.sin(angle)
+    };
+  });
+}
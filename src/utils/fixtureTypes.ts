@@ -0,0 +1,84 @@
+import { Fixture, FixtureType } from '../types/lighting';
+
+export const DEFAULT_FIXTURE_TYPE_ID = 'generic-spot';
+
+/**
+ * Fixture types shipped with the app
+ */
+export const builtInFixtureTypes: FixtureType[] = [
+  {
+    id: DEFAULT_FIXTURE_TYPE_ID,
+    name: 'Moving Head Spot',
+    manufacturer: 'Generic',
+    panRange: { min: -270, max: 270 },
+    tiltRange: { min: -134, max: 134 },
+    zoomRange: { min: 10, max: 40 },
+    features: { iris: true, frost: true, gobo: true, cmy: true },
+    colorSystem: 'cmy',
+    photometrics: { luminousFlux: 20000, fieldAngleRatio: 1.5 },
+    focusCurve: [{ distance: 3, focus: 10 }, { distance: 10, focus: 55 }, { distance: 25, focus: 90 }],
+    builtIn: true
+  },
+  {
+    id: 'generic-wash',
+    name: 'Moving Head Wash',
+    manufacturer: 'Generic',
+    panRange: { min: -270, max: 270 },
+    tiltRange: { min: -135, max: 135 },
+    zoomRange: { min: 7, max: 50 },
+    features: { iris: false, frost: true, gobo: false, cmy: false },
+    colorSystem: 'rgbw',
+    photometrics: { luminousFlux: 15000, fieldAngleRatio: 2 },
+    focusCurve: [{ distance: 3, focus: 20 }, { distance: 15, focus: 70 }, { distance: 30, focus: 95 }],
+    builtIn: true
+  },
+  {
+    id: 'generic-profile',
+    name: 'Moving Head Profile',
+    manufacturer: 'Generic',
+    panRange: { min: -270, max: 270 },
+    tiltRange: { min: -125, max: 125 },
+    zoomRange: { min: 5, max: 50 },
+    features: { iris: true, frost: true, gobo: true, cmy: true },
+    colorSystem: 'cmy',
+    photometrics: { luminousFlux: 25000, fieldAngleRatio: 1.3 },
+    focusCurve: [{ distance: 3, focus: 5 }, { distance: 10, focus: 50 }, { distance: 30, focus: 95 }],
+    builtIn: true
+  }
+];
+
+/**
+ * Look up a fixture's type, falling back to the default type for unknown IDs
+ */
+export function getFixtureType(fixtureTypes: FixtureType[], fixture: Pick<Fixture, 'typeId'>): FixtureType {
+  return fixtureTypes.find(t => t.id === fixture.typeId)
+    ?? fixtureTypes.find(t => t.id === DEFAULT_FIXTURE_TYPE_ID)
+    ?? builtInFixtureTypes[0];
+}
+
+/**
+ * Convert a zoom percentage to the type's beam angle in degrees
+ */
+export function zoomToBeamAngle(fixtureType: FixtureType, zoom: number): number {
+  const { min, max } = fixtureType.zoomRange;
+  return min + (Math.max(0, Math.min(100, zoom)) / 100) * (max - min);
+}
+
+/**
+ * Convert a beam angle in degrees to the type's zoom percentage
+ */
+export function beamAngleToZoom(fixtureType: FixtureType, beamAngle: number): number {
+  const { min, max } = fixtureType.zoomRange;
+  if (max === min) return 0;
+  return Math.max(0, Math.min(100, ((beamAngle - min) / (max - min)) * 100));
+}
+
+/**
+ * Whether any of the given types offers a feature
+ */
+export function typesHaveFeature(
+  fixtureTypes: FixtureType[],
+  feature: keyof FixtureType['features']
+): boolean {
+  return fixtureTypes.some(t => t.features[feature]);
+}
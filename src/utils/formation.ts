@@ -0,0 +1,40 @@
+type Point = { x: number; y: number };
+
+// How a formation moves as a whole: a shift of its centroid, then a scale and turn about it
+export interface FormationTransform {
+  dx: number;
+  dy: number;
+  scale: number;
+  rotation: number; // radians, counter-clockwise in plan coordinates
+}
+
+export const IDENTITY_FORMATION: FormationTransform = { dx: 0, dy: 0, scale: 1, rotation: 0 };
+
+/**
+ * Average of the formation's points
+ */
+export function formationCentroid(points: Point[]): Point {
+  if (points.length === 0) return { x: 0, y: 0 };
+  return {
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length
+  };
+}
+
+/**
+ * Move a formation, keeping each point's offset from the centroid (scaled and turned)
+ */
+export function transformFormation<T extends Point>(points: T[], transform: FormationTransform): T[] {
+  const center = formationCentroid(points);
+  const cos = Math.cos(transform.rotation);
+  const sin = Math.sin(transform.rotation);
+  return points.map(point => {
+    const ox = (point.x - center.x) * transform.scale;
+    const oy = (point.y - center.y) * transform.scale;
+    return {
+      ...point,
+      x: center.x + transform.dx + ox * cos - oy * sin,
+      y: center.y + transform.dy + ox * sin + oy * cos
+    };
+  });
+}
@@ -0,0 +1,140 @@
+import { unzipSync, strFromU8 } from 'fflate';
+import { ColorSystem, FixtureType, GoboSlot } from '../types/lighting';
+
+/**
+ * Read a .gdtf archive (zip with a description.xml) into a fixture type
+ * Runs entirely in the browser - no network access needed
+ */
+export async function parseGdtfFile(file: File): Promise<FixtureType> {
+  const buffer = new Uint8Array(await file.arrayBuffer());
+
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(buffer, {
+      filter: entry => entry.name.toLowerCase() === 'description.xml'
+    });
+  } catch (error) {
+    throw new Error(`${file.name} is not a valid GDTF archive`);
+  }
+
+  const description = Object.values(entries)[0];
+  if (!description) {
+    throw new Error(`${file.name} has no description.xml`);
+  }
+
+  return parseGdtfDescription(strFromU8(description));
+}
+
+/**
+ * Parse the description.xml of a GDTF file
+ * Pulls pan/tilt ranges, beam/zoom angles, the gobo wheel and the color system
+ */
+export function parseGdtfDescription(xml: string): FixtureType {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('description.xml is not valid XML');
+  }
+
+  const fixtureTypeElement = doc.getElementsByTagName('FixtureType')[0];
+  if (!fixtureTypeElement) {
+    throw new Error('description.xml has no FixtureType');
+  }
+
+  const name = fixtureTypeElement.getAttribute('LongName')
+    || fixtureTypeElement.getAttribute('Name')
+    || 'GDTF Fixture';
+  const manufacturer = fixtureTypeElement.getAttribute('Manufacturer') || 'Unknown';
+  const fixtureTypeId = fixtureTypeElement.getAttribute('FixtureTypeID');
+
+  // Every attribute the fixture can be controlled with, across all DMX modes
+  const channelFunctions = Array.from(doc.getElementsByTagName('ChannelFunction'));
+  const logicalChannels = Array.from(doc.getElementsByTagName('LogicalChannel'));
+  const attributes = new Set(
+    [...channelFunctions, ...logicalChannels]
+      .map(el => el.getAttribute('Attribute'))
+      .filter((attr): attr is string => !!attr)
+  );
+  const hasAttribute = (pattern: RegExp) => Array.from(attributes).some(attr => pattern.test(attr));
+
+  // Physical range of the first channel function driving an attribute
+  const physicalRange = (attribute: string): { min: number; max: number } | null => {
+    const fn = channelFunctions.find(el =>
+      el.getAttribute('Attribute') === attribute &&
+      el.hasAttribute('PhysicalFrom') &&
+      el.hasAttribute('PhysicalTo')
+    );
+    if (!fn) return null;
+    const from = parseFloat(fn.getAttribute('PhysicalFrom') || '');
+    const to = parseFloat(fn.getAttribute('PhysicalTo') || '');
+    if (isNaN(from) || isNaN(to) || from === to) return null;
+    return { min: Math.min(from, to), max: Math.max(from, to) };
+  };
+
+  const panRange = physicalRange('Pan');
+  const tiltRange = physicalRange('Tilt');
+  if (!panRange || !tiltRange) {
+    throw new Error(`${name} has no pan/tilt - only moving heads can be imported`);
+  }
+
+  // Zoom comes from the Zoom channel, otherwise the fixed beam angle of the Beam geometry
+  const beam = doc.getElementsByTagName('Beam')[0];
+  const beamAngle = parseFloat(beam?.getAttribute('BeamAngle') || '') || 25;
+  const zoomRange = physicalRange('Zoom') ?? { min: beamAngle, max: beamAngle };
+
+  // Photometrics of the Beam geometry, when the file has them
+  const luminousFlux = parseFloat(beam?.getAttribute('LuminousFlux') || '');
+  const fieldAngle = parseFloat(beam?.getAttribute('FieldAngle') || '');
+  const photometrics = luminousFlux > 0
+    ? { luminousFlux, fieldAngleRatio: fieldAngle > beamAngle ? fieldAngle / beamAngle : undefined }
+    : undefined;
+
+  const cmy = hasAttribute(/^ColorSub_[CMY]$/);
+  let colorSystem: ColorSystem = 'none';
+  if (hasAttribute(/^(ColorAdd_|ColorRGB_)/)) {
+    colorSystem = hasAttribute(/^ColorAdd_W$/) ? 'rgbw' : 'rgb';
+  } else if (cmy) {
+    colorSystem = 'cmy';
+  } else if (hasAttribute(/^Color\d+$/)) {
+    colorSystem = 'wheel';
+  }
+
+  return {
+    id: `gdtf-${fixtureTypeId || `${manufacturer}-${name}`.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+    name,
+    manufacturer,
+    panRange,
+    tiltRange,
+    zoomRange,
+    features: {
+      iris: hasAttribute(/^Iris$/),
+      frost: hasAttribute(/^Frost\d+$/),
+      gobo: hasAttribute(/^Gobo\d+$/),
+      cmy
+    },
+    colorSystem,
+    gobos: parseGoboWheel(doc, channelFunctions),
+    photometrics
+  };
+}
+
+/**
+ * Slots of the wheel driven by Gobo1, in wheel order (slot 0 is usually open)
+ */
+function parseGoboWheel(doc: Document, channelFunctions: Element[]): GoboSlot[] | undefined {
+  const wheelName = channelFunctions
+    .find(el => el.getAttribute('Attribute') === 'Gobo1' && el.getAttribute('Wheel'))
+    ?.getAttribute('Wheel');
+
+  const wheels = Array.from(doc.getElementsByTagName('Wheel'));
+  const wheel = wheels.find(w => w.getAttribute('Name') === wheelName)
+    ?? wheels.find(w => /^Gobo/i.test(w.getAttribute('Name') || ''));
+  if (!wheel) return undefined;
+
+  const slots = Array.from(wheel.getElementsByTagName('Slot'));
+  if (slots.length === 0) return undefined;
+
+  return slots.map((slot, index) => ({
+    index,
+    name: slot.getAttribute('Name') || `Gobo ${index}`
+  }));
+}
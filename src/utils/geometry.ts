@@ -1,57 +1,210 @@
-import { Fixture } from '../types/lighting';
+import { Fixture, FixtureType, MountingOrientation } from '../types/lighting';
+
+export type Vector3 = { x: number; y: number; z: number };
+
+const DEG = Math.PI / 180;
+
+/**
+ * Mounting presets; wall presets are named after the direction the beam faces at home
+ */
+export const MOUNTING_PRESETS: { id: string; name: string; mounting: MountingOrientation }[] = [
+  { id: 'hung', name: 'Hung', mounting: { yaw: 0, pitch: 0, roll: 0 } },
+  { id: 'standing', name: 'Floor-standing', mounting: { yaw: 0, pitch: 0, roll: 180 } },
+  { id: 'wall-py', name: 'Wall, facing +Y', mounting: { yaw: 0, pitch: 90, roll: 0 } },
+  { id: 'wall-ny', name: 'Wall, facing -Y', mounting: { yaw: 180, pitch: 90, roll: 0 } },
+  { id: 'wall-px', name: 'Wall, facing +X', mounting: { yaw: -90, pitch: 90, roll: 0 } },
+  { id: 'wall-nx', name: 'Wall, facing -X', mounting: { yaw: 90, pitch: 90, roll: 0 } },
+];
+
+export const HUNG: MountingOrientation = MOUNTING_PRESETS[0].mounting;
+
+/**
+ * Rotation matrix (row-major) taking fixture-local vectors to world vectors
+ * R = Rz(yaw) · Rx(pitch) · Ry(roll)
+ */
+export function mountingRotation(mounting: MountingOrientation = HUNG): number[][] {
+  const [cy, sy] = [Math.cos(mounting.yaw * DEG), Math.sin(mounting.yaw * DEG)];
+  const [cp, sp] = [Math.cos(mounting.pitch * DEG), Math.sin(mounting.pitch * DEG)];
+  const [cr, sr] = [Math.cos(mounting.roll * DEG), Math.sin(mounting.roll * DEG)];
+  return [
+    [cy * cr - sy * sp * sr, -sy * cp, cy * sr + sy * sp * cr],
+    [sy * cr + cy * sp * sr, cy * cp, sy * sr - cy * sp * cr],
+    [-cp * sr, sp, cp * cr]
+  ];
+}
+
+/**
+ * Express a world vector in the fixture's local frame
+ */
+export function worldToFixture(mounting: MountingOrientation | undefined, v: Vector3): Vector3 {
+  const r = mountingRotation(mounting);
+  // Transpose of R
+  return {
+    x: r[0][0] * v.x + r[1][0] * v.y + r[2][0] * v.z,
+    y: r[0][1] * v.x + r[1][1] * v.y + r[2][1] * v.z,
+    z: r[0][2] * v.x + r[1][2] * v.y + r[2][2] * v.z
+  };
+}
+
+/**
+ * Express a fixture-local vector in world coordinates
+ */
+export function fixtureToWorld(mounting: MountingOrientation | undefined, v: Vector3): Vector3 {
+  const r = mountingRotation(mounting);
+  return {
+    x: r[0][0] * v.x + r[0][1] * v.y + r[0][2] * v.z,
+    y: r[1][0] * v.x + r[1][1] * v.y + r[1][2] * v.z,
+    z: r[2][0] * v.x + r[2][1] * v.y + r[2][2] * v.z
+  };
+}
 
 /**
  * Calculate pan and tilt angles for a fixture to point at a target
  * Following the Python code convention exactly
+ * Pan/tilt limits come from the fixture's type
+ *
+ * Angles are solved in the fixture's own frame, so any mounting orientation works:
+ * tilt 0° is the beam along the base axis (straight down when hung),
+ * pan 0° tilts toward the base's +Y side and positive pan turns toward its +X side
+ *
+ * Every target has several solutions: pan ±360°, and pan ±180° with tilt mirrored.
+ * The reachable one nearest the fixture's current pan/tilt is used, so a target across
+ * the ±180° seam doesn't spin the head a full turn. With preferNoFlip, solutions that
+ * keep tilt on the same side win over nearer ones that swing the beam through the axis.
+ * clamped is set when no solution is within range and the angles were limited
  */
 export function calculatePanTilt(
   fixture: Fixture,
+  fixtureType: FixtureType,
   targetX: number,
   targetY: number,
   targetZ: number = 0
-): { pan: number; tilt: number } {
-  // Vector from fixture to target
-  const dx = targetX - fixture.x;
-  const dy = targetY - fixture.y;
-  const dz = fixture.z - targetZ; // positive if fixture is above target
-
-  // Calculate pan (azimuth): atan2(dx, dy) - 0° toward +y, positive toward +x
-  let pan = Math.atan2(dx, dy) * (180 / Math.PI); // [-180, 180]
+): { pan: number; tilt: number; clamped: boolean } {
+  // Vector from fixture to target, in the fixture's frame
+  const local = worldToFixture(fixture.mounting, {
+    x: targetX - fixture.x,
+    y: targetY - fixture.y,
+    z: targetZ - fixture.z
+  });
+
+  // Console values <-> angles in the fixture frame (inversions and offsets are calibration)
+  const toConsole = (pan: number, tilt: number) => ({
+    pan: (fixture.panInverted ? -pan : pan) + fixture.panOffset,
+    tilt: (fixture.tiltInverted ? -tilt : tilt) + fixture.tiltOffset
+  });
+  const currentPan = (fixture.pan - fixture.panOffset) * (fixture.panInverted ? -1 : 1);
+  const currentTilt = (fixture.tilt - fixture.tiltOffset) * (fixture.tiltInverted ? -1 : 1);
+
+  // Calculate pan (azimuth about the base axis): atan2(x, y) - 0° toward local +y, positive toward +x
+  let pan = Math.atan2(local.x, local.y) * (180 / Math.PI); // [-180, 180]
   
-  // Calculate tilt (elevation): 0° horizontal; >0 toward floor; <0 toward ceiling  
-  const h = Math.sqrt(dx * dx + dy * dy);
+  // Calculate tilt: angle away from the base axis (local -z)
+  const h = Math.sqrt(local.x * local.x + local.y * local.y);
   let tilt;
-  if (h === 0) {
-    // Target directly below/above fixture
-    tilt = dz > 0 ? 90.0 : -90.0;
+  if (h < 1e-9) {
+    // Target straight along the base axis, or straight behind it - any pan works, so keep the current one
+    pan = currentPan;
+    tilt = local.z <= 0 ? 0 : 180;
   } else {
-    tilt = Math.atan2(h, dz) * (180 / Math.PI);
+    tilt = Math.atan2(h, -local.z) * (180 / Math.PI);
   }
 
-  // Apply inversions (calibration)
-  if (fixture.panInverted) pan = -pan;
-  if (fixture.tiltInverted) tilt = -tilt;
-  
-  // Apply offsets
-  pan += fixture.panOffset;
-  tilt += fixture.tiltOffset;
-
-  // Wrap pan to [-270, 270] range if needed
-  const panRange = fixture.panRange.max - fixture.panRange.min;
-  if (panRange >= 360.0 - 1e-6) {
-    // Normalize to (-180, 180] and then adjust if range is not symmetric
-    pan = ((pan + 180.0) % 360.0) - 180.0;
-    if (pan < fixture.panRange.min) pan = fixture.panRange.min;
-    else if (pan > fixture.panRange.max) pan = fixture.panRange.max;
-  } else {
-    // Clamp to range
-    pan = Math.max(fixture.panRange.min, Math.min(fixture.panRange.max, pan));
+  // All equivalent solutions within a 720° pan window around the base solution
+  const { panRange, tiltRange } = fixtureType;
+  const candidates: { pan: number; tilt: number; flipped: boolean }[] = [];
+  for (let turns = -2; turns <= 2; turns++) {
+    candidates.push({ ...toConsole(pan + turns * 360, tilt), flipped: false });
+    candidates.push({ ...toConsole(pan + 180 + turns * 360, -tilt), flipped: true });
   }
-  
-  // Clamp tilt to range (tilt doesn't usually wrap 360°)
-  tilt = Math.max(fixture.tiltRange.min, Math.min(fixture.tiltRange.max, tilt));
 
-  return { pan, tilt };
+  const EPSILON = 1e-6;
+  const inRange = (c: { pan: number; tilt: number }) =>
+    c.pan >= panRange.min - EPSILON && c.pan <= panRange.max + EPSILON &&
+    c.tilt >= tiltRange.min - EPSILON && c.tilt <= tiltRange.max + EPSILON;
+  const distance = (c: { pan: number; tilt: number }) =>
+    Math.abs(c.pan - fixture.pan) + Math.abs(c.tilt - fixture.tilt);
+
+  // A solution swings through the base axis when its tilt is on the other side of the current one
+  const sweeps = (c: { flipped: boolean }) => {
+    const candidateTilt = c.flipped ? -tilt : tilt;
+    return Math.abs(currentTilt) > EPSILON && Math.abs(candidateTilt) > EPSILON &&
+      Math.sign(candidateTilt) !== Math.sign(currentTilt);
+  };
+
+  let reachable = candidates.filter(inRange);
+  if (fixture.preferNoFlip && reachable.some(c => !sweeps(c))) {
+    reachable = reachable.filter(c => !sweeps(c));
+  }
+
+  if (reachable.length > 0) {
+    const best = reachable.reduce((a, b) => distance(b) < distance(a) ? b : a);
+    return { pan: best.pan, tilt: best.tilt, clamped: false };
+  }
+
+  // Out of reach: clamp the solution that needs the least correction
+  const clamp = (c: { pan: number; tilt: number }) => ({
+    pan: Math.max(panRange.min, Math.min(panRange.max, c.pan)),
+    tilt: Math.max(tiltRange.min, Math.min(tiltRange.max, c.tilt))
+  });
+  const error = (c: { pan: number; tilt: number }) => {
+    const limited = clamp(c);
+    return Math.abs(limited.pan - c.pan) + Math.abs(limited.tilt - c.tilt);
+  };
+  const nearest = candidates.reduce((a, b) => {
+    const diff = error(b) - error(a);
+    return diff < -EPSILON || (Math.abs(diff) <= EPSILON && distance(b) < distance(a)) ? b : a;
+  });
+  return { ...clamp(nearest), clamped: true };
+}
+
+/**
+ * World direction of the beam for the fixture's current console pan/tilt
+ * The inverse of calculatePanTilt: offsets and inversions are undone first
+ */
+export function beamDirection(fixture: Fixture, pan: number = fixture.pan, tilt: number = fixture.tilt): Vector3 {
+  const p = (pan - fixture.panOffset) * (fixture.panInverted ? -1 : 1) * DEG;
+  const t = (tilt - fixture.tiltOffset) * (fixture.tiltInverted ? -1 : 1) * DEG;
+  return fixtureToWorld(fixture.mounting, {
+    x: Math.sin(t) * Math.sin(p),
+    y: Math.sin(t) * Math.cos(p),
+    z: -Math.cos(t)
+  });
+}
+
+/**
+ * Where the beam axis hits the horizontal plane at planeZ (the floor by default)
+ * Returns null when the beam is level with the plane or points away from it
+ */
+export function calculateBeamLanding(
+  fixture: Fixture,
+  planeZ: number = 0,
+  pan: number = fixture.pan,
+  tilt: number = fixture.tilt
+): Vector3 | null {
+  const direction = beamDirection(fixture, pan, tilt);
+  if (Math.abs(direction.z) < 1e-9) return null;
+
+  const distance = (planeZ - fixture.z) / direction.z;
+  if (distance <= 0) return null;
+
+  return {
+    x: fixture.x + direction.x * distance,
+    y: fixture.y + direction.y * distance,
+    z: planeZ
+  };
+}
+
+// How far the beam may land from the stored target before it's flagged, in meters
+export const TARGET_DRIFT_TOLERANCE = 0.1;
+
+/**
+ * Distance between the stored target and where the current pan/tilt actually lands
+ * on the target's plane; Infinity when the beam never reaches that plane
+ */
+export function targetDrift(fixture: Fixture): number {
+  const landing = calculateBeamLanding(fixture, fixture.targetZ ?? 0);
+  if (!landing) return Infinity;
+  return Math.hypot(landing.x - fixture.targetX, landing.y - fixture.targetY);
 }
 
 /**
@@ -81,45 +234,141 @@ export function percentToDegrees(
  */
 export function isTargetReachable(
   fixture: Fixture,
+  fixtureType: FixtureType,
   targetX: number,
-  targetY: number
+  targetY: number,
+  targetZ: number = 0
 ): boolean {
-  const { pan, tilt } = calculatePanTilt(fixture, targetX, targetY);
-  
-  const panInRange = pan >= fixture.panRange.min && pan <= fixture.panRange.max;
-  const tiltInRange = tilt >= fixture.tiltRange.min && tilt <= fixture.tiltRange.max;
-  
-  return panInRange && tiltInRange;
+  return !calculatePanTilt(fixture, fixtureType, targetX, targetY, targetZ).clamped;
+}
+
+// Reachable cells of a grid laid over the plan, row by row from y = 0
+export interface ReachMap {
+  cellSize: number; // meters
+  columns: number;
+  rows: number;
+  cells: boolean[]; // cells[row * columns + column], true when the cell's centre can be hit
 }
 
 /**
- * Calculate light cone projection on floor
+ * Sample which parts of the plan a fixture can hit within its pan/tilt limits
+ * heightAt gives the height aimed at for each point (the floor unless given)
  */
-export function calculateLightCone(
+export function calculateReachMap(
   fixture: Fixture,
-  targetX: number,
-  targetY: number,
-  beamAngle: number = 15
-): { centerX: number; centerY: number; radiusX: number; radiusY: number; rotation: number } {
-  const distance = Math.sqrt(
-    Math.pow(targetX - fixture.x, 2) + 
-    Math.pow(targetY - fixture.y, 2)
-  );
-  
-  const { pan } = calculatePanTilt(fixture, targetX, targetY);
-  
-  // Calculate cone radius at floor level
-  const coneRadius = Math.tan((beamAngle * Math.PI) / 180) * fixture.z;
-  
+  fixtureType: FixtureType,
+  width: number,
+  height: number,
+  heightAt: (x: number, y: number) => number = () => 0,
+  cellSize: number = 0.25
+): ReachMap {
+  const columns = Math.max(1, Math.ceil(width / cellSize));
+  const rows = Math.max(1, Math.ceil(height / cellSize));
+  const cells: boolean[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const x = (column + 0.5) * cellSize;
+      const y = (row + 0.5) * cellSize;
+      cells.push(isTargetReachable(fixture, fixtureType, x, y, heightAt(x, y)));
+    }
+  }
+  return { cellSize, columns, rows, cells };
+}
+
+export interface BeamFootprint {
+  // Conic section of the beam cone with the plane; hyperbolas and parabolas are open
+  // and their outline is cut off at maxRange from the fixture
+  kind: 'ellipse' | 'parabola' | 'hyperbola' | 'none';
+  outline: { x: number; y: number }[]; // Closed outline in real world meters
+  // Ellipse only: center, semi-axes in meters and major axis direction (degrees from +X toward +Y)
+  ellipse?: { centerX: number; centerY: number; semiMajor: number; semiMinor: number; rotation: number };
+}
+
+/**
+ * Footprint of the beam on the horizontal plane at planeZ, for the fixture's current pan/tilt
+ * beamAngle is the full beam angle in degrees (see zoomToBeamAngle)
+ */
+export function calculateBeamFootprint(
+  fixture: Fixture,
+  beamAngle: number,
+  planeZ: number = 0,
+  maxRange: number = 100,
+  samples: number = 72
+): BeamFootprint {
+  const axis = beamDirection(fixture);
+  const halfAngle = (Math.max(beamAngle, 0.01) / 2) * DEG;
+  const height = planeZ - fixture.z; // Signed: negative when the plane is below the fixture
+  if (Math.abs(height) < 1e-6) return { kind: 'none', outline: [] };
+
+  // Angle between the beam axis and the direction straight toward the plane
+  const cosTheta = axis.z * Math.sign(height);
+  const discriminant = cosTheta * cosTheta - Math.sin(halfAngle) ** 2;
+  // The nearest edge ray is at theta - alpha; past 90° from the plane the whole cone points away from it
+  if (cosTheta <= -Math.sin(halfAngle)) return { kind: 'none', outline: [] };
+  const kind = cosTheta > 0 && discriminant > 1e-9 ? 'ellipse' : Math.abs(discriminant) <= 1e-9 ? 'parabola' : 'hyperbola';
+
+  // Two unit vectors perpendicular to the axis
+  const helper = Math.abs(axis.z) < 0.9 ? { x: 0, y: 0, z: 1 } : { x: 1, y: 0, z: 0 };
+  const u = normalize(cross(axis, helper));
+  const v = cross(axis, u);
+
+  // Trace the cone's edge rays onto the plane; rays that miss or run past maxRange are cut off there
+  const outline: { x: number; y: number }[] = [];
+  for (let i = 0; i < samples; i++) {
+    const phi = (i / samples) * 2 * Math.PI;
+    const side = Math.sin(halfAngle);
+    const ray = {
+      x: axis.x * Math.cos(halfAngle) + (u.x * Math.cos(phi) + v.x * Math.sin(phi)) * side,
+      y: axis.y * Math.cos(halfAngle) + (u.y * Math.cos(phi) + v.y * Math.sin(phi)) * side,
+      z: axis.z * Math.cos(halfAngle) + (u.z * Math.cos(phi) + v.z * Math.sin(phi)) * side
+    };
+    const t = Math.abs(ray.z) > 1e-9 ? height / ray.z : -1;
+    const horizontal = Math.hypot(ray.x, ray.y);
+    if (t > 0 && t * horizontal <= maxRange) {
+      outline.push({ x: fixture.x + ray.x * t, y: fixture.y + ray.y * t });
+    } else if (horizontal > 1e-9) {
+      outline.push({ x: fixture.x + (ray.x / horizontal) * maxRange, y: fixture.y + (ray.y / horizontal) * maxRange });
+    }
+  }
+
+  if (kind !== 'ellipse') return { kind, outline };
+
+  // Closed form: the ellipse's major axis lies along the beam's horizontal direction.
+  // Its ends are where the edge rays at theta - alpha and theta + alpha meet the plane
+  const theta = Math.acos(Math.min(1, cosTheta));
+  const h = Math.abs(height);
+  const near = h * Math.tan(theta - halfAngle);
+  const far = h * Math.tan(theta + halfAngle);
+  const horizontal = Math.hypot(axis.x, axis.y);
+  const [dirX, dirY] = horizontal > 1e-9 ? [axis.x / horizontal, axis.y / horizontal] : [1, 0];
+  const offset = (near + far) / 2;
+
+  return {
+    kind,
+    outline,
+    ellipse: {
+      centerX: fixture.x + dirX * offset,
+      centerY: fixture.y + dirY * offset,
+      semiMajor: (far - near) / 2,
+      semiMinor: (h * Math.sin(halfAngle)) / Math.sqrt(discriminant),
+      rotation: Math.atan2(dirY, dirX) / DEG
+    }
+  };
+}
+
+function cross(a: Vector3, b: Vector3): Vector3 {
   return {
-    centerX: targetX,
-    centerY: targetY,
-    radiusX: coneRadius,
-    radiusY: coneRadius * 0.8, // Slightly elliptical for realism
-    rotation: pan
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x
   };
 }
 
+function normalize(v: Vector3): Vector3 {
+  const length = Math.hypot(v.x, v.y, v.z);
+  return { x: v.x / length, y: v.y / length, z: v.z / length };
+}
+
 /**
  * Convert pixel coordinates to real world coordinates
  * Bottom-left origin: (0,0) at bottom-left, x goes right, y goes up
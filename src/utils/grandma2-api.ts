@@ -1,4 +1,13 @@
-export class GrandMA2ApiClient {
+import { OutputBackendKind } from '../types/lighting';
+import { OutputBackend, OutputCapabilities, PresetLoadItem } from './outputBackend';
+
+/**
+ * Output backend for the GrandMA2 HTTP bridge
+ */
+export class GrandMA2ApiClient implements OutputBackend {
+  readonly kind: OutputBackendKind = 'http-bridge';
+  readonly capabilities: OutputCapabilities = { park: true, presetLoad: true, gobo: false };
+
   private baseUrl: string;
   private connected = false;
   private grandma2Host: string = '';
@@ -7,7 +16,9 @@ export class GrandMA2ApiClient {
   constructor(
     private apiBaseUrl: string = 'http://localhost:8000',
     private onConnectionChange?: (connected: boolean) => void,
-    private onLog?: (message: string) => void
+    private onLog?: (message: string) => void,
+    // Swapped out to serve the same endpoints from somewhere other than the network
+    private fetchImpl: typeof fetch = (input, init) => fetch(input, init)
   ) {
     this.baseUrl = apiBaseUrl;
   }
@@ -20,7 +31,7 @@ export class GrandMA2ApiClient {
     try {
       this.log('Checking API connection...');
       
-      const healthResponse = await fetch(`${this.baseUrl}/health`);
+      const healthResponse = await this.fetchImpl(`${this.baseUrl}/health`);
       if (!healthResponse.ok) {
         throw new Error('API not responding');
       }
@@ -49,7 +60,7 @@ export class GrandMA2ApiClient {
   /**
    * Get the GrandMA2 host and port from the last successful connection
    */
-  getGrandMA2Config(): { host: string; port: number } {
+  getConsoleConfig(): { host: string; port: number } {
     return {
       host: this.grandma2Host,
       port: this.grandma2Port
@@ -69,7 +80,7 @@ export class GrandMA2ApiClient {
     }
 
     try {
-      const response = await fetch(`${this.baseUrl}/move/fixture`, {
+      const response = await this.fetchImpl(`${this.baseUrl}/move/fixture`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -101,7 +112,7 @@ export class GrandMA2ApiClient {
     }
 
     try {
-      const response = await fetch(`${this.baseUrl}/move/group`, {
+      const response = await this.fetchImpl(`${this.baseUrl}/move/group`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ items })
@@ -131,7 +142,7 @@ export class GrandMA2ApiClient {
     try {
       const items = fixtureIds.map(fixture => ({ fixture, value: dimmer }));
 
-      const response = await fetch(`${this.baseUrl}/dim`, {
+      const response = await this.fetchImpl(`${this.baseUrl}/dim`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ items })
@@ -165,7 +176,7 @@ export class GrandMA2ApiClient {
         b: Math.round((b / 255) * 100)
       }));
 
-      const response = await fetch(`${this.baseUrl}/color`, {
+      const response = await this.fetchImpl(`${this.baseUrl}/color`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ items })
@@ -201,7 +212,7 @@ export class GrandMA2ApiClient {
     try {
       const items = fixtureIds.map(fixture => ({ fixture, value: iris }));
 
-      const response = await fetch(`${this.baseUrl}/iris`, {
+      const response = await this.fetchImpl(`${this.baseUrl}/iris`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ items })
@@ -230,7 +241,7 @@ export class GrandMA2ApiClient {
     try {
       const items = fixtureIds.map(fixture => ({ fixture, value: focus }));
 
-      const response = await fetch(`${this.baseUrl}/focus`, {
+      const response = await this.fetchImpl(`${this.baseUrl}/focus`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ items })
@@ -259,7 +270,7 @@ export class GrandMA2ApiClient {
     try {
       const items = fixtureIds.map(fixture => ({ fixture, value: zoom }));
 
-      const response = await fetch(`${this.baseUrl}/zoom`, {
+      const response = await this.fetchImpl(`${this.baseUrl}/zoom`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ items })
@@ -276,6 +287,40 @@ export class GrandMA2ApiClient {
     }
   }
 
+  /**
+   * Send zoom and focus with a value per fixture (0-100%)
+   * @param items - Array of {fixture, zoom?, focus?} objects
+   */
+  async sendLensBatch(items: Array<{ fixture: number; zoom?: number; focus?: number }>): Promise<void> {
+    if (!this.connected) {
+      this.log('Not connected - skipping command');
+      return;
+    }
+
+    try {
+      for (const attribute of ['zoom', 'focus'] as const) {
+        const values = items
+          .filter(i => i[attribute] !== undefined)
+          .map(i => ({ fixture: i.fixture, value: i[attribute] }));
+        if (values.length === 0) continue;
+
+        const response = await this.fetchImpl(`${this.baseUrl}/${attribute}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ items: values })
+        });
+
+        const result = await response.json();
+        if (!result.ok) {
+          throw new Error(`Batch ${attribute} command failed`);
+        }
+      }
+      this.log(`Batch zoom/focus sent for fixtures ${items.map(i => i.fixture).join(',')}`);
+    } catch (error) {
+      this.log(`Batch zoom/focus error: ${error}`);
+    }
+  }
+
   /**
    * Send frost command (0-100%)
    */
@@ -288,7 +333,7 @@ export class GrandMA2ApiClient {
     try {
       const items = fixtureIds.map(fixture => ({ fixture, value: frost }));
 
-      const response = await fetch(`${this.baseUrl}/frost`, {
+      const response = await this.fetchImpl(`${this.baseUrl}/frost`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ items })
@@ -310,26 +355,14 @@ export class GrandMA2ApiClient {
    * This endpoint handles the sequencing and delays automatically
    * Sequence: 1. Color, 2. Lighting (iris/focus/zoom/frost), 3. Position (pan/tilt), 4. Dimmer
    */
-  async loadPreset(items: Array<{
-    fixture: number;
-    r?: number;
-    g?: number;
-    b?: number;
-    iris?: number;
-    focus?: number;
-    zoom?: number;
-    frost?: number;
-    pan?: number;
-    tilt?: number;
-    dim?: number;
-  }>, delay: number = 3.0): Promise<void> {
+  async loadPreset(items: PresetLoadItem[], delay: number = 3.0): Promise<void> {
     if (!this.connected) {
       this.log('Not connected - skipping command');
       return;
     }
 
     try {
-      const response = await fetch(`${this.baseUrl}/preset/load`, {
+      const response = await this.fetchImpl(`${this.baseUrl}/preset/load`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ items, delay })
@@ -358,7 +391,7 @@ export class GrandMA2ApiClient {
     }
 
     try {
-      const response = await fetch(`${this.baseUrl}/park`, {
+      const response = await this.fetchImpl(`${this.baseUrl}/park`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ fixtures: fixtureIds })
@@ -387,7 +420,7 @@ export class GrandMA2ApiClient {
     }
 
     try {
-      const response = await fetch(`${this.baseUrl}/unpark`, {
+      const response = await this.fetchImpl(`${this.baseUrl}/unpark`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ fixtures: fixtureIds })
@@ -0,0 +1,95 @@
+import { Fixture, FixtureType } from '../types/lighting';
+import { DEFAULT_FIXTURE_TYPE_ID } from './fixtureTypes';
+
+export interface ConsoleFixture {
+  id: number; // grandMA2 fixture ID
+  name: string;
+  consoleType: string; // Fixture type name as the console knows it
+}
+
+export interface PatchImportEntry extends ConsoleFixture {
+  typeId: string; // Matching type in the library
+}
+
+export interface PatchImportPlan {
+  added: PatchImportEntry[]; // On the console, not in the rig yet
+  updated: PatchImportEntry[]; // In both - type and name refreshed, floor position kept
+  dropped: number[]; // In the rig but not on the console
+  skipped: string[]; // Console fixtures without a fixture ID (channel-only)
+}
+
+/**
+ * Parse a grandMA2 patch/fixture XML export (Layer > Fixture elements)
+ */
+export function parseGrandMA2PatchXml(xml: string): { fixtures: ConsoleFixture[]; skipped: string[] } {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not valid XML');
+  }
+
+  const elements = Array.from(doc.getElementsByTagName('Fixture'));
+  if (elements.length === 0) {
+    throw new Error('No fixtures found - export the patch from the grandMA2 as XML');
+  }
+
+  const fixtures: ConsoleFixture[] = [];
+  const skipped: string[] = [];
+
+  elements.forEach(el => {
+    const name = el.getAttribute('name') || '';
+    const consoleType = el.getElementsByTagName('FixtureType')[0]?.getAttribute('name') || '';
+    const id = parseInt(el.getAttribute('fixture_id') || '');
+
+    // Channel-only fixtures can't be addressed with /move/fixture
+    if (!id || id < 1) {
+      skipped.push(name || `Channel ${el.getAttribute('channel_id') ?? '?'}`);
+      return;
+    }
+    if (fixtures.some(f => f.id === id)) return;
+
+    fixtures.push({ id, name: name || `Fixture ${id}`, consoleType });
+  });
+
+  return { fixtures: fixtures.sort((a, b) => a.id - b.id), skipped };
+}
+
+/**
+ * Find the library type for a console fixture type name, falling back to the default type
+ */
+export function matchFixtureType(consoleType: string, fixtureTypes: FixtureType[]): string {
+  const wanted = consoleType.trim().toLowerCase();
+  if (!wanted) return DEFAULT_FIXTURE_TYPE_ID;
+
+  const names = fixtureTypes.map(t => ({
+    id: t.id,
+    name: t.name.toLowerCase(),
+    fullName: `${t.manufacturer} ${t.name}`.toLowerCase()
+  }));
+
+  const exact = names.find(t => t.name === wanted || t.fullName === wanted);
+  if (exact) return exact.id;
+
+  const partial = names.find(t => wanted.includes(t.name) || t.name.includes(wanted));
+  return partial?.id ?? DEFAULT_FIXTURE_TYPE_ID;
+}
+
+/**
+ * Compare the console patch with the rig and work out what an import would change
+ */
+export function planPatchImport(
+  consoleFixtures: ConsoleFixture[],
+  skipped: string[],
+  fixtures: Fixture[],
+  fixtureTypes: FixtureType[]
+): PatchImportPlan {
+  const entries = consoleFixtures.map(f => ({ ...f, typeId: matchFixtureType(f.consoleType, fixtureTypes) }));
+  const consoleIds = new Set(consoleFixtures.map(f => f.id));
+  const rigIds = new Set(fixtures.map(f => f.id));
+
+  return {
+    added: entries.filter(e => !rigIds.has(e.id)),
+    updated: entries.filter(e => rigIds.has(e.id)),
+    dropped: fixtures.filter(f => !consoleIds.has(f.id)).map(f => f.id),
+    skipped
+  };
+}
@@ -0,0 +1,20 @@
+import { HeightZone } from '../types/lighting';
+import { pointInPolygon } from './obstacles';
+
+/**
+ * Surface height at a point: the highest zone it falls in, or the floor (0)
+ * Zones can overlap, so a plinth drawn on a stage just needs the higher height
+ */
+export function surfaceHeightAt(zones: HeightZone[], x: number, y: number): number {
+  return zones.reduce(
+    (height, zone) => zone.points.length >= 3 && pointInPolygon({ x, y }, zone.points) ? Math.max(height, zone.height) : height,
+    0
+  );
+}
+
+/**
+ * Height a click at (x, y) aims at: the chosen target height on top of the surface there
+ */
+export function aimHeightAt(zones: HeightZone[], targetHeight: number, x: number, y: number): number {
+  return surfaceHeightAt(zones, x, y) + targetHeight;
+}
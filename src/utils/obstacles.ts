@@ -0,0 +1,79 @@
+import { Fixture, Obstacle } from '../types/lighting';
+import { Vector3 } from './geometry';
+
+type Point = { x: number; y: number };
+
+/**
+ * Whether a point lies inside a polygon (even-odd rule, works for concave outlines)
+ */
+export function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether the straight line between two points passes through an obstacle
+ * Touching the top face counts as clear, so the top of a display case can be lit
+ */
+export function segmentHitsObstacle(from: Vector3, to: Vector3, obstacle: Obstacle): boolean {
+  const points = obstacle.points;
+  if (points.length < 3) return false;
+
+  // Where the plan view of the line crosses the outline; between two crossings it's wholly inside or outside
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const crossings = [0, 1];
+  points.forEach((a, i) => {
+    const b = points[(i + 1) % points.length];
+    const ex = b.x - a.x;
+    const ey = b.y - a.y;
+    const denominator = dx * ey - dy * ex;
+    if (Math.abs(denominator) < 1e-12) return;
+    const t = ((a.x - from.x) * ey - (a.y - from.y) * ex) / denominator;
+    const s = ((a.x - from.x) * dy - (a.y - from.y) * dx) / denominator;
+    if (t > 0 && t < 1 && s >= 0 && s <= 1) crossings.push(t);
+  });
+  crossings.sort((a, b) => a - b);
+
+  // Height is linear along the line, so the lowest point of each inside stretch is at one of its ends
+  const heightAt = (t: number) => from.z + (to.z - from.z) * t;
+  for (let i = 0; i < crossings.length - 1; i++) {
+    const t0 = crossings[i];
+    const t1 = crossings[i + 1];
+    if (t1 - t0 < 1e-9) continue;
+    const middle = (t0 + t1) / 2;
+    if (!pointInPolygon({ x: from.x + dx * middle, y: from.y + dy * middle }, points)) continue;
+    if (Math.min(heightAt(t0), heightAt(t1)) < obstacle.height - 1e-6) return true;
+  }
+  return false;
+}
+
+/**
+ * First obstacle between a fixture and a point, or null when the fixture can see it
+ */
+export function findOccluder(
+  fixture: Fixture,
+  obstacles: Obstacle[],
+  targetX: number,
+  targetY: number,
+  targetZ: number = 0
+): Obstacle | null {
+  const from = { x: fixture.x, y: fixture.y, z: fixture.z };
+  const to = { x: targetX, y: targetY, z: targetZ };
+  return obstacles.find(o => segmentHitsObstacle(from, to, o)) ?? null;
+}
+
+/**
+ * Obstacle blocking the beam path from a fixture to its stored target
+ */
+export function targetOccluder(fixture: Fixture, obstacles: Obstacle[]): Obstacle | null {
+  return findOccluder(fixture, obstacles, fixture.targetX, fixture.targetY, fixture.targetZ ?? 0);
+}
@@ -0,0 +1,104 @@
+import { ApiConfig, OutputBackendKind } from '../types/lighting';
+import { GrandMA2ApiClient } from './grandma2-api';
+import { ConsoleSimulator, SimulatorBackend } from './consoleSimulator';
+
+export const DEFAULT_OUTPUT_BACKEND: OutputBackendKind = 'http-bridge';
+
+// What a backend can do beyond sending attributes; the UI hides or disables the rest
+export interface OutputCapabilities {
+  park: boolean; // Lock fixtures at the console
+  presetLoad: boolean; // Recall a whole preset in one sequenced command
+  gobo: boolean;
+}
+
+// One fixture's attributes in a preset recall; colour is 0-100 per channel, the rest as sent individually
+export interface PresetLoadItem {
+  fixture: number;
+  r?: number;
+  g?: number;
+  b?: number;
+  iris?: number;
+  focus?: number;
+  zoom?: number;
+  frost?: number;
+  pan?: number;
+  tilt?: number;
+  dim?: number;
+}
+
+/**
+ * Where fixture attributes go: a console bridge, a simulator, a DMX node...
+ * Store actions only talk to this interface, so each room can pick its own backend
+ */
+export interface OutputBackend {
+  readonly kind: OutputBackendKind;
+  readonly capabilities: OutputCapabilities;
+
+  connect(): Promise<boolean>;
+  disconnect(): void;
+  isConnected(): boolean;
+  // Console the backend reached on its last connect, if it talks to one
+  getConsoleConfig(): { host: string; port: number } | null;
+
+  sendPanTilt(fixtureId: number, pan: number, tilt: number): Promise<void>;
+  sendPanTiltBatch(items: Array<{ fixture: number; pan?: number; tilt?: number }>): Promise<void>;
+  sendDimmer(fixtureIds: number[], dimmer: number): Promise<void>;
+  sendColor(fixtureIds: number[], r: number, g: number, b: number): Promise<void>;
+  sendGobo(fixtureIds: number[], gobo: number): Promise<void>;
+  sendIris(fixtureIds: number[], iris: number): Promise<void>;
+  sendFocus(fixtureIds: number[], focus: number): Promise<void>;
+  sendZoom(fixtureIds: number[], zoom: number): Promise<void>;
+  sendLensBatch(items: Array<{ fixture: number; zoom?: number; focus?: number }>): Promise<void>;
+  sendFrost(fixtureIds: number[], frost: number): Promise<void>;
+  // Throws when the backend rejects the preset or the fixtures
+  loadPreset(items: PresetLoadItem[], delay?: number): Promise<void>;
+  parkFixtures(fixtureIds: number[]): Promise<void>;
+  unparkFixtures(fixtureIds: number[]): Promise<void>;
+}
+
+// Backends offered in Setup
+export const outputBackendOptions: { value: OutputBackendKind; label: string; description: string; usesBaseUrl: boolean }[] = [
+  {
+    value: 'http-bridge',
+    label: 'GrandMA2 HTTP bridge',
+    description: 'Commands go to the bridge API, which forwards them to the console it reports from /health',
+    usesBaseUrl: true
+  },
+  {
+    value: 'simulator',
+    label: 'Console simulator',
+    description: 'An in-browser console for rehearsing without a bridge: heads move at real speeds, and failures can be injected',
+    usesBaseUrl: false
+  }
+];
+
+/**
+ * The offered backend a room's configuration selects
+ */
+export function outputBackendOption(config: ApiConfig) {
+  const kind = config.backend ?? DEFAULT_OUTPUT_BACKEND;
+  return outputBackendOptions.find(o => o.value === kind) ?? outputBackendOptions[0];
+}
+
+/**
+ * Create the backend a room's configuration asks for
+ * A simulator replacing an earlier one keeps its console, so fixture state and injected faults survive a reconnect
+ */
+export function createOutputBackend(
+  config: ApiConfig,
+  onConnectionChange?: (connected: boolean) => void,
+  onLog?: (message: string) => void,
+  previous: OutputBackend | null = null
+): OutputBackend {
+  switch (config.backend ?? DEFAULT_OUTPUT_BACKEND) {
+    case 'simulator':
+      return new SimulatorBackend(
+        previous instanceof SimulatorBackend ? previous.simulator : new ConsoleSimulator(),
+        onConnectionChange,
+        onLog
+      );
+    case 'http-bridge':
+    default:
+      return new GrandMA2ApiClient(config.baseUrl, onConnectionChange, onLog);
+  }
+}
@@ -0,0 +1,181 @@
+import { Fixture, FixtureType, HeightZone, Obstacle } from '../types/lighting';
+import { beamDirection, Vector3 } from './geometry';
+import { zoomToBeamAngle } from './fixtureTypes';
+import { segmentHitsObstacle, pointInPolygon } from './obstacles';
+import { surfaceHeightAt } from './heightZones';
+
+// Soft-edged beam when the datasheet gives no field angle (a Gaussian profile)
+export const DEFAULT_FIELD_ANGLE_RATIO = 1.8;
+
+const DEG = Math.PI / 180;
+
+/**
+ * Intensity at an angle off the beam axis, relative to the peak
+ * Modelled as exp(-ln2·(θ/θb)^k): half intensity at the beam edge, 10% at the field edge
+ */
+export function relativeIntensity(offAxis: number, beamAngle: number, fieldAngleRatio: number = DEFAULT_FIELD_ANGLE_RATIO): number {
+  if (offAxis >= 90 || beamAngle <= 0) return 0;
+  const ratio = Math.max(fieldAngleRatio, 1.01);
+  const exponent = Math.log(Math.LN10 / Math.LN2) / Math.log(ratio);
+  return Math.exp(-Math.LN2 * Math.pow(offAxis / (beamAngle / 2), exponent));
+}
+
+// Flux per candela of peak intensity for a beam: the profile integrated over the forward hemisphere
+function fluxPerCandela(beamAngle: number, fieldAngleRatio: number): number {
+  const steps = 360;
+  const h = 90 / steps;
+  let sum = 0;
+  for (let i = 0; i <= steps; i++) {
+    const angle = i * h;
+    const weight = i === 0 || i === steps ? 1 : i % 2 === 1 ? 4 : 2;
+    sum += weight * relativeIntensity(angle, beamAngle, fieldAngleRatio) * Math.sin(angle * DEG);
+  }
+  return 2 * Math.PI * (sum * h * DEG) / 3;
+}
+
+// Beam of one fixture as it is set now, ready for illuminance sums
+export interface BeamModel {
+  fixture: Fixture;
+  axis: Vector3; // Unit vector along the beam for the fixture's pan/tilt
+  beamAngle: number; // degrees
+  fieldAngleRatio: number;
+  peakIntensity: number; // candela, dimmer included
+}
+
+/**
+ * Peak intensity and beam angle for a fixture's zoom, iris and dimmer
+ * Returns null when the type has no photometric data or the fixture is dark
+ */
+export function beamModel(fixture: Fixture, fixtureType: FixtureType): BeamModel | null {
+  const photometrics = fixtureType.photometrics;
+  if (!photometrics || fixture.dimmer <= 0) return null;
+
+  const fieldAngleRatio = photometrics.fieldAngleRatio ?? DEFAULT_FIELD_ANGLE_RATIO;
+  // Flux stays the same across the zoom range; a datasheet candela figure is for the narrowest beam
+  const flux = photometrics.luminousFlux
+    ?? (photometrics.peakIntensity ?? 0) * fluxPerCandela(fixtureType.zoomRange.min, fieldAngleRatio);
+  if (flux <= 0) return null;
+
+  // Closing the iris narrows the beam and cuts the light outside it, leaving the centre about as bright
+  const iris = fixtureType.features.iris ? Math.max(fixture.iris, 1) / 100 : 1;
+  const beamAngle = zoomToBeamAngle(fixtureType, fixture.zoom) * iris;
+  const peakIntensity = (flux * iris * iris) / fluxPerCandela(beamAngle, fieldAngleRatio);
+
+  return {
+    fixture,
+    axis: beamDirection(fixture),
+    beamAngle,
+    fieldAngleRatio,
+    peakIntensity: peakIntensity * (fixture.dimmer / 100)
+  };
+}
+
+/**
+ * Illuminance in lux on a horizontal surface at (x, y, z) from one beam
+ * Inverse square law and cosine of incidence; nothing lands behind an obstacle
+ */
+export function beamIlluminance(beam: BeamModel, obstacles: Obstacle[], x: number, y: number, z: number): number {
+  const { fixture, axis } = beam;
+  const dx = x - fixture.x;
+  const dy = y - fixture.y;
+  const dz = z - fixture.z;
+  const distance = Math.hypot(dx, dy, dz);
+  if (distance < 1e-6 || dz >= 0) return 0; // The surface faces up, so light from below doesn't count
+
+  const cosOffAxis = (axis.x * dx + axis.y * dy + axis.z * dz) / distance;
+  const offAxis = Math.acos(Math.max(-1, Math.min(1, cosOffAxis))) / DEG;
+  const intensity = beam.peakIntensity * relativeIntensity(offAxis, beam.beamAngle, beam.fieldAngleRatio);
+  if (intensity <= 0) return 0;
+
+  const from = { x: fixture.x, y: fixture.y, z: fixture.z };
+  if (obstacles.some(o => segmentHitsObstacle(from, { x, y, z }, o))) return 0;
+
+  const cosIncidence = -dz / distance;
+  return (intensity * cosIncidence) / (distance * distance);
+}
+
+/**
+ * Total illuminance in lux at a point from all beams
+ */
+export function illuminanceAt(beams: BeamModel[], obstacles: Obstacle[], x: number, y: number, z: number): number {
+  return beams.reduce((sum, beam) => sum + beamIlluminance(beam, obstacles, x, y, z), 0);
+}
+
+/**
+ * Beam models for every lit fixture whose type has photometric data
+ */
+export function rigBeams(fixtures: Fixture[], typeOf: (fixture: Fixture) => FixtureType): BeamModel[] {
+  return fixtures
+    .map(f => beamModel(f, typeOf(f)))
+    .filter((b): b is BeamModel => b !== null);
+}
+
+/**
+ * Everything illuminance depends on for a set of beams, as a string to compare cached results against
+ */
+export function beamsKey(beams: BeamModel[]): string {
+  return JSON.stringify(beams.map(({ fixture, axis, beamAngle, fieldAngleRatio, peakIntensity }) =>
+    [fixture.x, fixture.y, fixture.z, axis.x, axis.y, axis.z, beamAngle, fieldAngleRatio, peakIntensity]));
+}
+
+// Illuminance sampled on a grid over the plan, row by row from y = 0
+export interface IlluminanceMap {
+  cellSize: number; // meters
+  columns: number;
+  rows: number;
+  values: number[]; // values[row * columns + column], lux at the cell's centre on the surface there
+  max: number;
+}
+
+/**
+ * Illuminance over the whole plan, on the floor or on top of raised zones
+ */
+export function calculateIlluminanceMap(
+  beams: BeamModel[],
+  obstacles: Obstacle[],
+  zones: HeightZone[],
+  width: number,
+  height: number,
+  cellSize: number = 0.25
+): IlluminanceMap {
+  const columns = Math.max(1, Math.ceil(width / cellSize));
+  const rows = Math.max(1, Math.ceil(height / cellSize));
+  const values: number[] = [];
+  let max = 0;
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const x = (column + 0.5) * cellSize;
+      const y = (row + 0.5) * cellSize;
+      const lux = illuminanceAt(beams, obstacles, x, y, surfaceHeightAt(zones, x, y));
+      values.push(lux);
+      max = Math.max(max, lux);
+    }
+  }
+  return { cellSize, columns, rows, values, max };
+}
+
+/**
+ * Brightest spot on a zone's surface, sampled finely enough for small plinths
+ */
+export function zonePeakIlluminance(beams: BeamModel[], obstacles: Obstacle[], zone: HeightZone): number {
+  if (zone.points.length < 3) return 0;
+  const xs = zone.points.map(p => p.x);
+  const ys = zone.points.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const spanX = Math.max(...xs) - minX;
+  const spanY = Math.max(...ys) - minY;
+  // Up to 40 samples a side, at least every 10cm on small zones
+  const step = Math.max(0.1, Math.max(spanX, spanY) / 40);
+
+  let peak = 0;
+  for (let x = minX + step / 2; x < minX + spanX; x += step) {
+    for (let y = minY + step / 2; y < minY + spanY; y += step) {
+      if (!pointInPolygon({ x, y }, zone.points)) continue;
+      peak = Math.max(peak, illuminanceAt(beams, obstacles, x, y, zone.height));
+    }
+  }
+  // Zones thinner than a sample step still get checked at their centre
+  const center = { x: xs.reduce((a, b) => a + b, 0) / xs.length, y: ys.reduce((a, b) => a + b, 0) / ys.length };
+  return Math.max(peak, illuminanceAt(beams, obstacles, center.x, center.y, zone.height));
+}
@@ -0,0 +1,59 @@
+// Uploaded plan images, kept per room in IndexedDB
+// A data URL can run to several megabytes, more than localStorage holds for the whole store
+
+const DB_NAME = 'spot-pointer-plans';
+const STORE_NAME = 'images';
+
+/**
+ * Whether an image is uploaded data that has to be stored here, rather than a bundled asset URL
+ */
+export const isStoredPlanImage = (image: string | null | undefined): image is string =>
+  typeof image === 'string' && image.startsWith('data:');
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Every stored plan image, by room id
+ */
+export async function loadPlanImages(): Promise<Record<string, string>> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const store = db.transaction(STORE_NAME).objectStore(STORE_NAME);
+    const images: Record<string, string> = {};
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(images);
+        return;
+      }
+      images[String(cursor.key)] = cursor.value as string;
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Store or replace rooms' plan images, and drop the ones given as null
+ */
+export async function savePlanImages(changes: Record<string, string | null>): Promise<void> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    Object.entries(changes).forEach(([roomId, image]) => {
+      if (image === null) store.delete(roomId);
+      else store.put(image, roomId);
+    });
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
@@ -0,0 +1,71 @@
+import { CalibrationPoint, ImageTransform } from '../types/lighting';
+
+export const MIN_REGISTRATION_POINTS = 2;
+
+/**
+ * Real world position of an image pixel (pixel Y runs down, real Y runs up)
+ */
+export function imagePixelToReal(transform: ImageTransform, pixelX: number, pixelY: number): { x: number; y: number } {
+  const a = transform.scale * Math.cos((transform.rotation * Math.PI) / 180);
+  const b = transform.scale * Math.sin((transform.rotation * Math.PI) / 180);
+  return {
+    x: transform.offsetX + a * pixelX + b * pixelY,
+    y: transform.offsetY + b * pixelX - a * pixelY
+  };
+}
+
+/**
+ * Least-squares similarity transform (offset, uniform scale, rotation) from image pixels to meters
+ * Also returns how far each reference point ends up from its typed position, in meters
+ */
+export function solveImageTransform(points: CalibrationPoint[]): { transform: ImageTransform; residuals: number[] } {
+  if (points.length < MIN_REGISTRATION_POINTS) {
+    throw new Error(`Place at least ${MIN_REGISTRATION_POINTS} reference points`);
+  }
+
+  const n = points.length;
+  const meanU = points.reduce((sum, p) => sum + p.pixelX, 0) / n;
+  const meanV = points.reduce((sum, p) => sum + p.pixelY, 0) / n;
+  const meanX = points.reduce((sum, p) => sum + p.realX, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.realY, 0) / n;
+
+  // With a = s·cos θ and b = s·sin θ the fit is linear:
+  // x = ox + a·u + b·v, y = oy + b·u - a·v
+  let spread = 0;
+  let sumA = 0;
+  let sumB = 0;
+  points.forEach(p => {
+    const u = p.pixelX - meanU;
+    const v = p.pixelY - meanV;
+    const x = p.realX - meanX;
+    const y = p.realY - meanY;
+    spread += u * u + v * v;
+    sumA += u * x - v * y;
+    sumB += v * x + u * y;
+  });
+
+  if (spread < 1e-9) {
+    throw new Error('Reference points must be at different places on the image');
+  }
+
+  const a = sumA / spread;
+  const b = sumB / spread;
+  const scale = Math.hypot(a, b);
+  if (scale < 1e-12) {
+    throw new Error('Reference points must be at different real positions');
+  }
+
+  const transform: ImageTransform = {
+    offsetX: meanX - a * meanU - b * meanV,
+    offsetY: meanY - b * meanU + a * meanV,
+    scale,
+    rotation: (Math.atan2(b, a) * 180) / Math.PI
+  };
+
+  const residuals = points.map(p => {
+    const real = imagePixelToReal(transform, p.pixelX, p.pixelY);
+    return Math.hypot(real.x - p.realX, real.y - p.realY);
+  });
+
+  return { transform, residuals };
+}
@@ -0,0 +1,65 @@
+import { Fixture, RigPosition } from '../types/lighting';
+
+/**
+ * Length of a position in meters
+ */
+export function positionLength(position: RigPosition): number {
+  return Math.hypot(position.end.x - position.start.x, position.end.y - position.start.y);
+}
+
+/**
+ * Real world point at a distance along a position from its start
+ */
+export function pointOnPosition(
+  position: RigPosition,
+  offset: number
+): { x: number; y: number; z: number } {
+  const length = positionLength(position);
+  const t = length > 0 ? offset / length : 0;
+  return {
+    x: position.start.x + (position.end.x - position.start.x) * t,
+    y: position.start.y + (position.end.y - position.start.y) * t,
+    z: position.height
+  };
+}
+
+/**
+ * Offset along a position of the point closest to (x, y), clamped to the position's length
+ */
+export function projectOntoPosition(position: RigPosition, x: number, y: number): number {
+  const length = positionLength(position);
+  if (length === 0) return 0;
+  const ux = (position.end.x - position.start.x) / length;
+  const uy = (position.end.y - position.start.y) / length;
+  const offset = (x - position.start.x) * ux + (y - position.start.y) * uy;
+  return Math.max(0, Math.min(length, offset));
+}
+
+/**
+ * Place a fixture on a position at its offset, taking the position's height and orientation
+ */
+export function hangOnPosition(fixture: Fixture, position: RigPosition): Fixture {
+  const offset = fixture.positionOffset ?? 0;
+  const { x, y, z } = pointOnPosition(position, offset);
+  return {
+    ...fixture,
+    positionId: position.id,
+    positionOffset: offset,
+    x,
+    y,
+    z,
+    mounting: { ...position.mounting }
+  };
+}
+
+/**
+ * Offsets for n fixtures spaced evenly along a position
+ * With a spacing the group is centered on the position, otherwise it spans the full length
+ */
+export function distributeOffsets(position: RigPosition, count: number, spacing?: number): number[] {
+  const length = positionLength(position);
+  if (count <= 1) return [length / 2];
+  const gap = spacing ?? length / (count - 1);
+  const first = length / 2 - (gap * (count - 1)) / 2;
+  return Array.from({ length: count }, (_, i) => first + i * gap);
+}
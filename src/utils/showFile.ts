@@ -0,0 +1,415 @@
+import { z } from 'zod';
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate';
+import { ApiConfig, Fixture, FixtureGroup, FixtureType, FloorPlan, HeightZone, LightingState, Obstacle, Preset, RigPosition } from '../types/lighting';
+import { DEFAULT_FIXTURE_TYPE_ID, builtInFixtureTypes } from './fixtureTypes';
+import { HUNG } from './geometry';
+
+export const SHOW_FILE_FORMAT = 'spot-pointer-show';
+export const SHOW_FILE_VERSION = 1;
+
+// Name of the JSON document and the plan image inside a zipped show
+const SHOW_JSON = 'show.json';
+const PLAN_IMAGE = 'floor-plan';
+
+const rangeSchema = z.object({ min: z.number(), max: z.number() });
+const pointSchema = z.object({ x: z.number(), y: z.number() });
+const mountingSchema = z.object({ yaw: z.number(), pitch: z.number(), roll: z.number() });
+
+const fixtureTypeSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  manufacturer: z.string().default(''),
+  panRange: rangeSchema,
+  tiltRange: rangeSchema,
+  zoomRange: rangeSchema,
+  features: z.object({
+    iris: z.boolean().default(false),
+    frost: z.boolean().default(false),
+    gobo: z.boolean().default(false),
+    cmy: z.boolean().default(false)
+  }),
+  colorSystem: z.enum(['rgb', 'rgbw', 'cmy', 'wheel', 'none']).default('rgb'),
+  gobos: z.array(z.object({ index: z.number().int(), name: z.string() })).optional(),
+  photometrics: z.object({
+    luminousFlux: z.number().positive().optional(),
+    peakIntensity: z.number().positive().optional(),
+    fieldAngleRatio: z.number().min(1).optional()
+  }).optional(),
+  focusCurve: z.array(z.object({
+    distance: z.number().positive(),
+    focus: z.number().min(0).max(100)
+  })).optional(),
+  builtIn: z.boolean().optional()
+});
+
+const fixtureSchema = z.object({
+  id: z.number().int().positive(),
+  name: z.string().optional(),
+  typeId: z.string().default(DEFAULT_FIXTURE_TYPE_ID),
+  x: z.number(),
+  y: z.number(),
+  z: z.number(),
+  positionId: z.string().nullable().optional(),
+  positionOffset: z.number().optional(),
+  pan: z.number().default(0),
+  tilt: z.number().default(0),
+  dimmer: z.number().min(0).max(100).default(0),
+  color: z.object({
+    r: z.number().min(0).max(255),
+    g: z.number().min(0).max(255),
+    b: z.number().min(0).max(255)
+  }).default({ r: 255, g: 255, b: 255 }),
+  gobo: z.number().default(0),
+  zoom: z.number().min(0).max(100).default(50),
+  iris: z.number().min(0).max(100).default(50),
+  focus: z.number().min(0).max(100).default(50),
+  frost: z.number().min(0).max(100).default(0),
+  spotDiameter: z.number().positive().optional(),
+  isParked: z.boolean().default(false),
+  targetX: z.number(),
+  targetY: z.number(),
+  targetZ: z.number().min(0).default(0),
+  mounting: mountingSchema.default(HUNG),
+  panOffset: z.number().default(0),
+  tiltOffset: z.number().default(0),
+  panInverted: z.boolean().default(false),
+  tiltInverted: z.boolean().default(true),
+  preferNoFlip: z.boolean().optional(),
+  isClamped: z.boolean().optional()
+});
+
+const positionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  start: pointSchema,
+  end: pointSchema,
+  height: z.number(),
+  mounting: mountingSchema.default(HUNG)
+});
+
+const obstacleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  points: z.array(pointSchema).min(3),
+  height: z.number().min(0)
+});
+
+const heightZoneSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  points: z.array(pointSchema).min(3),
+  height: z.number().min(0),
+  luxLimit: z.number().positive().optional()
+});
+
+const groupSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  fixtureIds: z.array(z.number().int())
+});
+
+const presetSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  description: z.string().default(''),
+  createdAt: z.string(),
+  fixtures: z.array(fixtureSchema)
+});
+
+const floorPlanSchema = z.object({
+  image: z.string().nullable(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  calibrationPoints: z.array(z.object({
+    pixelX: z.number(),
+    pixelY: z.number(),
+    realX: z.number(),
+    realY: z.number()
+  })).default([]),
+  imageTransform: z.object({
+    offsetX: z.number(),
+    offsetY: z.number(),
+    scale: z.number().positive(),
+    rotation: z.number()
+  }).nullable().optional(),
+  pixelsPerMeter: z.number().positive()
+});
+
+const apiConfigSchema = z.object({
+  backend: z.enum(['http-bridge', 'simulator']).optional(),
+  baseUrl: z.string(),
+  grandma2Host: z.string(),
+  grandma2Port: z.number(),
+  user: z.string().optional(),
+  password: z.string().optional()
+});
+
+// Collections are validated item by item so one bad entry doesn't sink the show
+const showFileSchema = z.object({
+  format: z.literal(SHOW_FILE_FORMAT),
+  version: z.literal(SHOW_FILE_VERSION),
+  savedAt: z.string(),
+  floorPlan: floorPlanSchema.nullable(), // null = keep the current plan
+  apiConfig: apiConfigSchema,
+  fixtureTypes: z.array(z.unknown()),
+  positions: z.array(z.unknown()),
+  obstacles: z.array(z.unknown()).default([]), // Added after version 1 shipped
+  heightZones: z.array(z.unknown()).default([]),
+  fixtures: z.array(z.unknown()),
+  groups: z.array(z.unknown()),
+  presets: z.array(z.unknown())
+});
+
+export type ShowFile = Pick<
+  LightingState,
+  'apiConfig' | 'fixtureTypes' | 'positions' | 'obstacles' | 'heightZones' | 'fixtures' | 'groups' | 'presets'
+> & {
+  floorPlan: LightingState['floorPlan'] | null;
+  format: typeof SHOW_FILE_FORMAT;
+  version: typeof SHOW_FILE_VERSION;
+  savedAt: string;
+};
+
+type ShowContent = Omit<ShowFile, 'format' | 'version' | 'savedAt' | 'floorPlan'> & Pick<LightingState, 'floorPlan'>;
+
+// Raw JSON on its way through the migrations
+type RawShow = Record<string, unknown>;
+
+/**
+ * Schema migrations, keyed by the version they upgrade from
+ * Each step records what it changed in the report
+ */
+const migrations: Record<number, (show: RawShow, report: string[]) => RawShow> = {
+  // Version 0: the app's saved browser state ({ state, version } from the lighting-store),
+  // where every fixture carried its own pan/tilt ranges. Since rooms, each room's rig is saved
+  // under rooms and the active one is imported
+  0: (show, report) => {
+    const saved = (show.state ?? show) as RawShow;
+    const rooms = Array.isArray(saved.rooms) ? saved.rooms as RawShow[] : [];
+    const room = rooms.find(r => r.id === saved.activeRoomId) ?? rooms[0];
+    if (room && rooms.length > 1) {
+      report.push(`Saved state holds ${rooms.length} rooms, only the active one ("${room.name}") is imported`);
+    }
+    const { id: _id, name: _name, ...roomContent } = room ?? {};
+    const state: RawShow = room ? { ...roomContent, fixtureTypes: saved.fixtureTypes } : saved;
+    const fixtures = Array.isArray(state.fixtures) ? state.fixtures as RawShow[] : [];
+
+    const migrated = fixtures.map(f => {
+      if (f.typeId) return f;
+      const { panRange, tiltRange, ...rest } = f;
+      if (panRange || tiltRange) {
+        report.push(`Fixture ${f.id}: per-fixture pan/tilt ranges replaced by the default fixture type`);
+      }
+      return { ...rest, typeId: DEFAULT_FIXTURE_TYPE_ID };
+    });
+
+    if (!state.floorPlan) {
+      report.push('No floor plan in the file, the current plan is kept');
+    }
+
+    return {
+      ...state,
+      floorPlan: state.floorPlan ?? null,
+      format: SHOW_FILE_FORMAT,
+      version: 1,
+      savedAt: new Date().toISOString(),
+      fixtures: migrated,
+      fixtureTypes: state.fixtureTypes ?? [],
+      positions: state.positions ?? [],
+      obstacles: state.obstacles ?? [],
+      heightZones: state.heightZones ?? [],
+      groups: state.groups ?? [],
+      presets: state.presets ?? []
+    };
+  }
+};
+
+/**
+ * Build a show file from the current state
+ */
+export function createShowFile(state: ShowContent): ShowFile {
+  return {
+    format: SHOW_FILE_FORMAT,
+    version: SHOW_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    floorPlan: state.floorPlan,
+    apiConfig: state.apiConfig,
+    // Built-in types ship with the app; only custom and imported ones are saved
+    fixtureTypes: state.fixtureTypes.filter(t => !t.builtIn),
+    positions: state.positions,
+    obstacles: state.obstacles,
+    heightZones: state.heightZones,
+    fixtures: state.fixtures.map(f => ({ ...f, isSelected: false })),
+    groups: state.groups,
+    presets: state.presets
+  };
+}
+
+/**
+ * Migrate, validate and repair a parsed show file
+ * Returns the show and a report of everything that was fixed or dropped
+ */
+export function parseShowFile(json: unknown): { show: ShowFile; report: string[] } {
+  const report: string[] = [];
+
+  if (!json || typeof json !== 'object') {
+    throw new Error('Not a show file');
+  }
+
+  // Run migrations up to the current version
+  let raw = json as RawShow;
+  let version = typeof raw.version === 'number' && raw.format === SHOW_FILE_FORMAT ? raw.version : 0;
+  if (version > SHOW_FILE_VERSION) {
+    throw new Error(`Show file version ${version} is newer than this app supports (${SHOW_FILE_VERSION})`);
+  }
+  if (version < SHOW_FILE_VERSION) {
+    report.push(`Upgraded show file from version ${version} to ${SHOW_FILE_VERSION}`);
+  }
+  while (version < SHOW_FILE_VERSION) {
+    raw = migrations[version](raw, report);
+    version += 1;
+  }
+
+  const parsed = showFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid show file: ${issue.path.join('.') || 'root'} - ${issue.message}`);
+  }
+  const file = parsed.data;
+
+  // zod can't infer required fields without strictNullChecks, so the item type is given explicitly
+  const validItems = <T>(items: unknown[], schema: z.ZodTypeAny, label: (item: unknown, index: number) => string): T[] =>
+    items.flatMap((item, index) => {
+      const result = schema.safeParse(item);
+      if (result.success) return [result.data as T];
+      const issue = result.error.issues[0];
+      report.push(`Dropped ${label(item, index)}: ${issue.path.join('.')} ${issue.message}`);
+      return [];
+    });
+  const describe = (kind: string) => (item: unknown, index: number) => {
+    const obj = (item ?? {}) as { id?: unknown; name?: unknown };
+    return `${kind} ${obj.name ?? obj.id ?? `#${index + 1}`}`;
+  };
+
+  const fixtureTypes = validItems<FixtureType>(file.fixtureTypes, fixtureTypeSchema, describe('fixture type'))
+    .map(t => ({ ...t, builtIn: false }));
+  const positions = validItems<RigPosition>(file.positions, positionSchema, describe('position'));
+  const obstacles = validItems<Obstacle>(file.obstacles, obstacleSchema, describe('obstacle'));
+  const heightZones = validItems<HeightZone>(file.heightZones, heightZoneSchema, describe('height zone'));
+  const groups = validItems<FixtureGroup>(file.groups, groupSchema, describe('group'));
+  const presets = validItems<Preset>(file.presets, presetSchema, describe('preset'));
+
+  // Fixtures: drop duplicate IDs, repair dangling type and position references
+  const knownTypes = new Set([...builtInFixtureTypes, ...fixtureTypes].map(t => t.id));
+  const knownPositions = new Set(positions.map(p => p.id));
+  const fixtures = validItems<Omit<Fixture, 'isSelected'>>(file.fixtures, fixtureSchema, (item, index) => `fixture ${(item as { id?: unknown })?.id ?? `#${index + 1}`}`)
+    .filter((f, index, all) => {
+      if (all.findIndex(other => other.id === f.id) === index) return true;
+      report.push(`Dropped duplicate fixture ${f.id}`);
+      return false;
+    })
+    .map(f => {
+      let fixture = { ...f, isSelected: false };
+      if (!knownTypes.has(fixture.typeId)) {
+        report.push(`Fixture ${f.id}: unknown type "${fixture.typeId}", using the default type`);
+        fixture = { ...fixture, typeId: DEFAULT_FIXTURE_TYPE_ID };
+      }
+      if (fixture.positionId && !knownPositions.has(fixture.positionId)) {
+        report.push(`Fixture ${f.id}: position "${fixture.positionId}" not found, fixture left free`);
+        fixture = { ...fixture, positionId: null };
+      }
+      return fixture;
+    });
+
+  // Groups may only reference patched fixtures
+  const fixtureIds = new Set(fixtures.map(f => f.id));
+  const repairedGroups = groups.map(g => {
+    const members = g.fixtureIds.filter(id => fixtureIds.has(id));
+    if (members.length !== g.fixtureIds.length) {
+      report.push(`Group ${g.name}: removed ${g.fixtureIds.length - members.length} missing fixture(s)`);
+    }
+    return { ...g, fixtureIds: members };
+  });
+
+  return {
+    show: {
+      format: SHOW_FILE_FORMAT,
+      version: SHOW_FILE_VERSION,
+      savedAt: file.savedAt,
+      floorPlan: file.floorPlan as FloorPlan | null,
+      apiConfig: file.apiConfig as ApiConfig,
+      fixtureTypes,
+      positions,
+      obstacles,
+      heightZones,
+      fixtures,
+      groups: repairedGroups,
+      presets
+    },
+    report
+  };
+}
+
+/**
+ * Serialize a show as plain JSON, or as a zip holding the JSON and the plan image
+ */
+export async function encodeShowFile(show: ShowFile, zipped: boolean): Promise<Blob> {
+  if (!zipped || !show.floorPlan?.image) {
+    return new Blob([JSON.stringify(show, null, 2)], { type: 'application/json' });
+  }
+
+  // The plan may be a data URL (uploaded) or a bundled asset URL (default plan)
+  const response = await fetch(show.floorPlan.image);
+  const image = new Uint8Array(await response.arrayBuffer());
+  const extension = (response.headers.get('content-type') || 'image/png').split('/')[1]?.split(';')[0] || 'png';
+  const imageName = `${PLAN_IMAGE}.${extension}`;
+
+  const json = JSON.stringify({ ...show, floorPlan: { ...show.floorPlan, image: imageName } }, null, 2);
+  const archive = zipSync({
+    [SHOW_JSON]: strToU8(json),
+    [imageName]: image
+  });
+  return new Blob([archive], { type: 'application/zip' });
+}
+
+/**
+ * Read a show from a .json or zipped show file
+ */
+export async function decodeShowFile(file: Blob): Promise<{ show: ShowFile; report: string[] }> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b; // "PK"
+
+  if (!isZip) {
+    let json: unknown;
+    try {
+      json = JSON.parse(strFromU8(bytes));
+    } catch (error) {
+      throw new Error('The file is neither JSON nor a zipped show');
+    }
+    return parseShowFile(json);
+  }
+
+  const entries = unzipSync(bytes);
+  if (!entries[SHOW_JSON]) {
+    throw new Error(`The archive has no ${SHOW_JSON}`);
+  }
+  const json = JSON.parse(strFromU8(entries[SHOW_JSON]));
+
+  // Put the plan image back as a data URL
+  const imageName = json?.floorPlan?.image;
+  if (typeof imageName === 'string' && entries[imageName]) {
+    const extension = imageName.split('.').pop() || 'png';
+    json.floorPlan.image = await bytesToDataUrl(entries[imageName], `image/${extension === 'svg' ? 'svg+xml' : extension}`);
+  }
+
+  return parseShowFile(json);
+}
+
+function bytesToDataUrl(bytes: Uint8Array, type: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(new Blob([bytes], { type }));
+  });
+}
@@ -0,0 +1,211 @@
+// Saving and opening show files on disk
+// Uses the File System Access API where the browser has it (so Save can overwrite the
+// same file and recent files can be reopened), otherwise falls back to download/upload
+
+// Minimal typings for the parts of the File System Access API used here
+interface ShowFileHandle {
+  name: string;
+  getFile: () => Promise<File>;
+  createWritable: () => Promise<{ write: (data: Blob) => Promise<void>; close: () => Promise<void> }>;
+  queryPermission?: (options: { mode: 'read' | 'readwrite' }) => Promise<PermissionState>;
+  requestPermission?: (options: { mode: 'read' | 'readwrite' }) => Promise<PermissionState>;
+  isSameEntry?: (other: ShowFileHandle) => Promise<boolean>;
+}
+
+interface FilePickerOptions {
+  suggestedName?: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}
+
+type FileSystemWindow = Window & {
+  showSaveFilePicker?: (options?: FilePickerOptions) => Promise<ShowFileHandle>;
+  showOpenFilePicker?: (options?: FilePickerOptions) => Promise<ShowFileHandle[]>;
+};
+
+export type { ShowFileHandle };
+
+export interface RecentShow {
+  id: string; // Same-named shows from different folders are separate entries
+  name: string;
+  openedAt: string;
+  handle: ShowFileHandle;
+}
+
+const PICKER_TYPES: FilePickerOptions['types'] = [
+  {
+    description: 'Show file',
+    accept: {
+      'application/json': ['.json'],
+      'application/zip': ['.zip']
+    }
+  }
+];
+
+const MAX_RECENT = 8;
+const DB_NAME = 'spot-pointer-shows';
+const STORE_NAME = 'recent-shows';
+
+const fsWindow = () => window as FileSystemWindow;
+
+/**
+ * Whether files can be written back in place and reopened from the recent list
+ */
+export const supportsFileHandles = () =>
+  typeof window !== 'undefined' && typeof fsWindow().showSaveFilePicker === 'function';
+
+// The user closing a picker is not an error
+const isAbort = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Ask for a file to open; resolves to null if the user cancels
+ */
+export async function pickShowFile(): Promise<{ file: File; handle: ShowFileHandle | null } | null> {
+  const picker = fsWindow().showOpenFilePicker;
+  if (picker) {
+    try {
+      const [handle] = await picker({ types: PICKER_TYPES });
+      return { file: await handle.getFile(), handle };
+    } catch (error) {
+      if (isAbort(error)) return null;
+      throw error;
+    }
+  }
+
+  // Fallback: a throwaway file input
+  return new Promise(resolve => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,.zip,application/json,application/zip';
+    input.onchange = () => {
+      const file = input.files?.[0];
+      resolve(file ? { file, handle: null } : null);
+    };
+    input.click();
+  });
+}
+
+/**
+ * Write a show to a file. Without a handle the user is asked where to save
+ * Resolves to the handle written to, null if cancelled, or 'download' in the fallback
+ */
+export async function writeShowFile(
+  blob: Blob,
+  suggestedName: string,
+  handle: ShowFileHandle | null
+): Promise<ShowFileHandle | 'download' | null> {
+  const picker = fsWindow().showSaveFilePicker;
+  if (!picker) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = suggestedName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    return 'download';
+  }
+
+  let target = handle;
+  if (!target) {
+    try {
+      target = await picker({ suggestedName, types: PICKER_TYPES });
+    } catch (error) {
+      if (isAbort(error)) return null;
+      throw error;
+    }
+  }
+
+  const writable = await target.createWritable();
+  await writable.write(blob);
+  await writable.close();
+  return target;
+}
+
+/**
+ * Make sure a remembered handle may be read (browsers ask again after a reload)
+ */
+export async function readRecentShow(recent: RecentShow): Promise<File> {
+  const { handle } = recent;
+  if (handle.queryPermission && (await handle.queryPermission({ mode: 'readwrite' })) !== 'granted') {
+    const permission = await handle.requestPermission?.({ mode: 'readwrite' });
+    if (permission !== 'granted') {
+      throw new Error(`No permission to open ${recent.name}`);
+    }
+  }
+  return handle.getFile();
+}
+
+// File handles can't go in localStorage, but IndexedDB can store them
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 2);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      // Version 1 keyed shows by file name; its entries are only shortcuts, so they're dropped
+      if (db.objectStoreNames.contains('recent')) db.deleteObjectStore('recent');
+      if (!db.objectStoreNames.contains(STORE_NAME)) db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Recently opened or saved shows, newest first
+ */
+export async function listRecentShows(): Promise<RecentShow[]> {
+  if (!supportsFileHandles()) return [];
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_NAME).objectStore(STORE_NAME).getAll();
+    request.onsuccess = () => {
+      const recent = request.result as RecentShow[];
+      resolve(recent.sort((a, b) => b.openedAt.localeCompare(a.openedAt)));
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// The recent entry for the same file as a handle, if there is one
+async function findRecentShow(recent: RecentShow[], handle: ShowFileHandle): Promise<RecentShow | undefined> {
+  for (const entry of recent) {
+    if (entry.name === handle.name && (await handle.isSameEntry?.(entry.handle))) return entry;
+  }
+  return undefined;
+}
+
+/**
+ * Put a show at the top of the recent list, dropping the oldest beyond the limit
+ */
+export async function rememberRecentShow(handle: ShowFileHandle): Promise<void> {
+  if (!supportsFileHandles()) return;
+  const existing = await listRecentShows();
+  const same = await findRecentShow(existing, handle);
+  const id = same?.id ?? Date.now().toString();
+  const db = await openDb();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    store.put({ id, name: handle.name, openedAt: new Date().toISOString(), handle });
+    existing
+      .filter(r => r.id !== id)
+      .slice(MAX_RECENT - 1)
+      .forEach(r => store.delete(r.id));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Drop a show from the recent list (e.g. the file was moved or deleted)
+ */
+export async function forgetRecentShow(id: string): Promise<void> {
+  if (!supportsFileHandles()) return;
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).delete(id);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
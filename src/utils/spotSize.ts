@@ -0,0 +1,76 @@
+import { Fixture, FixtureType } from '../types/lighting';
+import { beamAngleToZoom } from './fixtureTypes';
+
+/**
+ * Distance from the fixture to its target in meters
+ */
+export function throwDistance(fixture: Fixture): number {
+  return Math.hypot(
+    fixture.targetX - fixture.x,
+    fixture.targetY - fixture.y,
+    (fixture.targetZ ?? 0) - fixture.z
+  );
+}
+
+/**
+ * Beam angle in degrees that gives a spot of this diameter at this throw
+ * The diameter is measured square to the beam; a raking angle stretches it into an ellipse
+ */
+export function beamAngleForSpot(diameter: number, distance: number): number {
+  if (distance <= 0) return 180;
+  return 2 * Math.atan(diameter / (2 * distance)) * (180 / Math.PI);
+}
+
+/**
+ * Focus percentage for a sharp edge at a throw, interpolated along the type's focus curve
+ * Returns null when the type has no curve
+ */
+export function focusForThrow(fixtureType: FixtureType, distance: number): number | null {
+  const curve = [...(fixtureType.focusCurve ?? [])].sort((a, b) => a.distance - b.distance);
+  if (curve.length === 0) return null;
+  if (distance <= curve[0].distance) return curve[0].focus;
+
+  const last = curve[curve.length - 1];
+  if (distance >= last.distance) return last.focus;
+
+  const upper = curve.findIndex(p => p.distance >= distance);
+  const a = curve[upper - 1];
+  const b = curve[upper];
+  const t = (distance - a.distance) / (b.distance - a.distance || 1);
+  return a.focus + (b.focus - a.focus) * t;
+}
+
+export interface LensSetting {
+  zoom: number;
+  focus: number;
+  clamped: boolean; // The spot is outside what the zoom range can make
+}
+
+/**
+ * Zoom and focus that keep a fixture's spot size at its current throw
+ * Returns null when the fixture has no spot size set
+ */
+export function lensForSpot(fixture: Fixture, fixtureType: FixtureType): LensSetting | null {
+  if (!fixture.spotDiameter || fixture.spotDiameter <= 0) return null;
+
+  const distance = throwDistance(fixture);
+  // The iris narrows the beam the zoom makes, so a closed iris needs a wider zoom
+  const iris = fixtureType.features.iris ? Math.max(fixture.iris, 1) / 100 : 1;
+  const zoomAngle = beamAngleForSpot(fixture.spotDiameter, distance) / iris;
+  const { min, max } = fixtureType.zoomRange;
+  const focus = focusForThrow(fixtureType, distance);
+
+  return {
+    zoom: Math.round(beamAngleToZoom(fixtureType, zoomAngle) * 10) / 10,
+    focus: focus === null ? fixture.focus : Math.round(focus * 10) / 10,
+    clamped: zoomAngle < Math.min(min, max) - 1e-6 || zoomAngle > Math.max(min, max) + 1e-6
+  };
+}
+
+/**
+ * The fixture with zoom and focus fitted to its spot size, or unchanged without one
+ */
+export function fitSpotSize(fixture: Fixture, fixtureType: FixtureType): Fixture {
+  const lens = lensForSpot(fixture, fixtureType);
+  return lens ? { ...fixture, zoom: lens.zoom, focus: lens.focus } : fixture;
+}